@@ -0,0 +1,59 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises'
+import path from 'path'
+
+// Disk-backed stand-in for Supabase Storage, enabled with NEXT_PUBLIC_STORAGE_MODE=local
+const ROOT = path.join(process.cwd(), '.local-storage')
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain; charset=utf-8',
+}
+
+interface RouteParams {
+  params: Promise<{ path: string[] }>
+}
+
+// Resolve a request path inside ROOT, refusing anything that escapes it
+async function resolveFile({ params }: RouteParams): Promise<string | null> {
+  if (process.env.NEXT_PUBLIC_STORAGE_MODE !== 'local') return null
+
+  const { path: segments } = await params
+  const file = path.resolve(ROOT, ...segments)
+  return file.startsWith(ROOT + path.sep) ? file : null
+}
+
+export async function GET(_request: Request, context: RouteParams) {
+  const file = await resolveFile(context)
+  if (!file) return new Response('Not found', { status: 404 })
+
+  try {
+    const data = await readFile(file)
+    const contentType = CONTENT_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream'
+    return new Response(data, { headers: { 'Content-Type': contentType } })
+  } catch {
+    return new Response('Not found', { status: 404 })
+  }
+}
+
+export async function PUT(request: Request, context: RouteParams) {
+  const file = await resolveFile(context)
+  if (!file) return new Response('Not found', { status: 404 })
+
+  await mkdir(path.dirname(file), { recursive: true })
+  await writeFile(file, Buffer.from(await request.arrayBuffer()))
+  return new Response(null, { status: 204 })
+}
+
+export async function DELETE(_request: Request, context: RouteParams) {
+  const file = await resolveFile(context)
+  if (!file) return new Response('Not found', { status: 404 })
+
+  await rm(file, { force: true })
+  return new Response(null, { status: 204 })
+}
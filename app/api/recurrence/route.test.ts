@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NEW_TASK_DEFAULTS, Task } from '@/lib/types'
+import { POST } from './route'
+
+interface Query {
+  table: string
+  op: 'select' | 'insert'
+  filters: Record<string, unknown>
+}
+
+type Result = { data: unknown; error: { code: string } | null }
+
+// Answers each query the route makes; set per test
+let respond: (query: Query) => Result
+let hasBoardAccess: boolean
+
+// Just enough of the Supabase query builder for the route
+function fakeClient() {
+  return {
+    from(table: string) {
+      const query: Query = { table, op: 'select', filters: {} }
+      const builder = {
+        select: () => builder,
+        order: () => builder,
+        limit: () => builder,
+        eq: (column: string, value: unknown) => {
+          query.filters[column] = value
+          return builder
+        },
+        insert: () => {
+          query.op = 'insert'
+          return builder
+        },
+        maybeSingle: async () => respond(query),
+        single: async () => respond(query),
+        then: (resolve: (result: Result) => void) => resolve(respond(query)),
+      }
+      return builder
+    },
+  }
+}
+
+vi.mock('@/lib/supabaseServer', () => ({
+  createServerClient: () => fakeClient(),
+  canAccessBoard: async () => hasBoardAccess,
+}))
+
+const completed: Task = {
+  ...NEW_TASK_DEFAULTS,
+  id: 'task-1',
+  board_id: 'board-1',
+  title: 'Regar as plantas',
+  status: 'done',
+  assignee: 'member-1',
+  rank: 'V',
+  due_date: '2026-10-19',
+  recurrence: { frequency: 'daily', interval: 1, end: { type: 'never' }, mode: 'schedule' },
+  completed_at: '2026-10-19T10:00:00Z',
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-19T10:00:00Z',
+}
+
+const winner = { ...completed, id: 'task-2', status: 'todo', due_date: '2026-10-20', completed_at: null }
+
+function call() {
+  return POST(
+    new Request('http://localhost/api/recurrence', {
+      method: 'POST',
+      body: JSON.stringify({ taskId: completed.id, userName: 'Safira' }),
+    })
+  )
+}
+
+// The route's queries up to the insert: the task, no occurrence yet, the first open column
+function respondUntilInsert(query: Query): Result | null {
+  if (query.table === 'tasks' && query.filters.id) return { data: completed, error: null }
+  if (query.table === 'board_columns') return { data: { id: 'todo' }, error: null }
+  return null
+}
+
+describe('POST /api/recurrence', () => {
+  beforeEach(() => {
+    hasBoardAccess = true
+  })
+
+  it('creates the next occurrence', async () => {
+    const inserted: Query[] = []
+    respond = (query) => {
+      if (query.op === 'insert') inserted.push(query)
+      if (query.op === 'insert' && query.table === 'tasks') return { data: winner, error: null }
+      return respondUntilInsert(query) ?? { data: null, error: null }
+    }
+
+    const response = await call()
+
+    expect(await response.json()).toEqual({ task: winner, created: true })
+    expect(inserted.map((q) => q.table)).toEqual(['tasks', 'activity_log'])
+  })
+
+  it('returns the occurrence another request created first', async () => {
+    let parentLookups = 0
+    respond = (query) => {
+      if (query.op === 'insert') return { data: null, error: { code: '23505' } }
+      if (query.filters.recurrence_parent_id) {
+        // Not there before the insert, there once the other request has won
+        return { data: parentLookups++ === 0 ? null : winner, error: null }
+      }
+      return respondUntilInsert(query) ?? { data: null, error: null }
+    }
+
+    const response = await call()
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ task: winner, created: false })
+  })
+
+  it('rejects a body that is not JSON', async () => {
+    const response = await POST(new Request('http://localhost/api/recurrence', { method: 'POST', body: '{' }))
+
+    expect(response.status).toBe(400)
+  })
+
+  it('does not repeat a task in the trash', async () => {
+    const inserted: Query[] = []
+    respond = (query) => {
+      if (query.op === 'insert') inserted.push(query)
+      if (query.table === 'tasks' && query.filters.id) {
+        return { data: { ...completed, deleted_at: '2026-10-19T11:00:00Z' }, error: null }
+      }
+      return respondUntilInsert(query) ?? { data: null, error: null }
+    }
+
+    const response = await call()
+
+    expect(await response.json()).toEqual({ task: null, created: false })
+    expect(inserted).toEqual([])
+  })
+
+  it('refuses callers who are not members of the board', async () => {
+    hasBoardAccess = false
+    respond = (query) => respondUntilInsert(query) ?? { data: null, error: null }
+
+    const response = await call()
+
+    expect(response.status).toBe(403)
+  })
+})
@@ -0,0 +1,179 @@
+import { rankBetween } from '@/lib/rank'
+import { getNextOccurrence } from '@/lib/recurrence'
+import { canAccessBoard, createServerClient } from '@/lib/supabaseServer'
+import { SeriesFields, Task, TaskSeries } from '@/lib/types'
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+// An IANA zone the server knows, or undefined (the server's own zone is used then)
+function validTimeZone(timeZone: string | undefined): string | undefined {
+  if (!timeZone) return undefined
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return timeZone
+  } catch {
+    return undefined
+  }
+}
+
+// Create the next occurrence of a completed recurring task.
+// Idempotent: tasks.recurrence_parent_id is unique, so completing the same task
+// again (or from two clients at once) returns the occurrence that already exists.
+// Only members of the task's board may call it (see canAccessBoard).
+export async function POST(request: Request) {
+  let body: {
+    taskId?: string
+    userName?: string
+    // The caller's zone, for the day a task without a due time was completed on
+    timeZone?: string
+  }
+  try {
+    body = await request.json()
+  } catch {
+    return Response.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const { taskId, userName, timeZone } = body ?? {}
+  if (!taskId) {
+    return Response.json({ error: 'taskId is required' }, { status: 400 })
+  }
+
+  const supabase = createServerClient()
+
+  const { data: task, error: taskError } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', taskId)
+    .maybeSingle<Task>()
+
+  if (taskError) {
+    console.error('Error fetching task:', taskError)
+    return Response.json({ error: 'Could not load task' }, { status: 500 })
+  }
+  if (!task) {
+    return Response.json({ error: 'Task not found' }, { status: 404 })
+  }
+  if (!(await canAccessBoard(supabase, request, task.board_id))) {
+    return Response.json({ error: 'Not a member of this board' }, { status: 403 })
+  }
+  // A task in the trash does not repeat
+  if (!task.recurrence || !task.completed_at || task.deleted_at) {
+    return Response.json({ task: null, created: false })
+  }
+
+  const { data: existing } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('recurrence_parent_id', task.id)
+    .maybeSingle<Task>()
+
+  if (existing) {
+    return Response.json({ task: existing, created: false })
+  }
+
+  // Occurrences of a series are generated from its template, older tasks from themselves
+  let template: SeriesFields = { ...task, tags: task.tags || [] }
+  let skippedDates: string[] = []
+
+  if (task.series_id) {
+    const { data: series } = await supabase
+      .from('task_series')
+      .select('*')
+      .eq('id', task.series_id)
+      .maybeSingle<TaskSeries>()
+
+    if (series) {
+      if (series.ended_at || !series.recurrence) {
+        return Response.json({ task: null, created: false, ended: true })
+      }
+      template = series
+      skippedDates = series.skipped_dates || []
+    }
+  }
+
+  const next = getNextOccurrence(
+    template.recurrence!,
+    task,
+    skippedDates,
+    new Date(task.completed_at),
+    task.due_timezone || validTimeZone(timeZone)
+  )
+  if (!next) {
+    return Response.json({ task: null, created: false, ended: true })
+  }
+
+  // Lands at the end of the board's first open column
+  const { data: column } = await supabase
+    .from('board_columns')
+    .select('id')
+    .eq('board_id', task.board_id)
+    .eq('is_done', false)
+    .order('position', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (!column) {
+    return Response.json({ error: 'Board has no open column' }, { status: 409 })
+  }
+
+  const { data: lastTask } = await supabase
+    .from('tasks')
+    .select('rank')
+    .eq('board_id', task.board_id)
+    .eq('status', column.id)
+    .order('rank', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const { data: created, error: insertError } = await supabase
+    .from('tasks')
+    .insert({
+      board_id: task.board_id,
+      title: template.title,
+      description: template.description,
+      status: column.id,
+      priority: template.priority,
+      assignee: template.assignee,
+      due_date: next.due_date,
+      // Same wall-clock time in the same zone, whatever the daylight-saving offset on the new date
+      due_time: task.due_time,
+      due_timezone: task.due_timezone,
+      tags: template.tags,
+      recurrence: template.recurrence,
+      recurrence_index: next.index,
+      recurrence_parent_id: task.id,
+      series_id: task.series_id,
+      rank: rankBetween(lastTask?.rank ?? null, null),
+    })
+    .select()
+    .single<Task>()
+
+  if (insertError) {
+    // Lost a race with another request for the same occurrence
+    if (insertError.code === UNIQUE_VIOLATION) {
+      const { data: winner } = await supabase
+        .from('tasks')
+        .select('*')
+        .eq('recurrence_parent_id', task.id)
+        .single<Task>()
+      return Response.json({ task: winner, created: false })
+    }
+
+    console.error('Error creating next occurrence:', insertError)
+    return Response.json({ error: 'Could not create next occurrence' }, { status: 500 })
+  }
+
+  const { error: activityError } = await supabase.from('activity_log').insert({
+    task_id: created.id,
+    action: 'created',
+    user_name: userName || 'Anónimo',
+    details: { recurring: true, from_task: task.id },
+  })
+
+  if (activityError) {
+    console.error('Error logging activity:', activityError)
+  }
+
+  return Response.json({ task: created, created: true })
+}
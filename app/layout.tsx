@@ -1,5 +1,8 @@
 import type { Metadata } from "next";
 import { ThemeProvider } from "@/lib/ThemeContext";
+import { AuthProvider } from "@/lib/AuthContext";
+import { MembersProvider } from "@/lib/MembersContext";
+import { TagsProvider } from "@/lib/TagsContext";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -16,7 +19,13 @@ export default function RootLayout({
     <html lang="pt-PT" suppressHydrationWarning>
       <body>
         <ThemeProvider>
-          {children}
+          <AuthProvider>
+            <MembersProvider>
+              <TagsProvider>
+                {children}
+              </TagsProvider>
+            </MembersProvider>
+          </AuthProvider>
         </ThemeProvider>
       </body>
     </html>
@@ -0,0 +1,224 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { X } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { pt } from 'date-fns/locale'
+import { useMembers } from '@/lib/MembersContext'
+import {
+  ACTIVITY_ACTION_LABELS,
+  ACTIVITY_PAGE_SIZE,
+  ActivityFilters,
+  NO_ACTIVITY_FILTERS,
+  formatActivityMessage,
+  getActivityIcon,
+  getBoardActivity,
+  matchesActivityFilters,
+  subscribeBoardActivity,
+} from '@/lib/activity'
+import { ActivityAction, ActivityLog, BoardColumn, Task } from '@/lib/types'
+
+interface ActivityFeedProps {
+  isOpen: boolean
+  onClose: () => void
+  boardId: string | null
+  tasks: Task[]
+  columns: BoardColumn[]
+  onOpenTask: (taskId: string) => void
+}
+
+const inputClassName = `
+  w-full h-9 px-3 rounded-md text-sm
+  border border-[var(--color-border)] bg-[var(--color-surface)]
+  text-[var(--color-text-primary)]
+  focus:border-[var(--color-accent)] focus:ring-1 focus:ring-[var(--color-accent)]
+  transition-colors duration-150 outline-none
+`
+
+const ACTIONS = Object.keys(ACTIVITY_ACTION_LABELS) as ActivityAction[]
+
+function timeAgo(date: string) {
+  return formatDistanceToNow(new Date(date), { addSuffix: true, locale: pt })
+}
+
+export default function ActivityFeed({ isOpen, onClose, boardId, tasks, columns, onOpenTask }: ActivityFeedProps) {
+  const { members } = useMembers()
+  const [filters, setFilters] = useState<ActivityFilters>(NO_ACTIVITY_FILTERS)
+  const [entries, setEntries] = useState<ActivityLog[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const loadingRef = useRef(false)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  // First page whenever the board or the filters change
+  useEffect(() => {
+    if (!isOpen || !boardId) return
+
+    loadingRef.current = true
+    getBoardActivity(boardId, filters).then((page) => {
+      setEntries(page)
+      setHasMore(page.length === ACTIVITY_PAGE_SIZE)
+      loadingRef.current = false
+    })
+  }, [isOpen, boardId, filters])
+
+  // New entries from anyone, if they pass the filters
+  useEffect(() => {
+    if (!isOpen || !boardId) return
+
+    return subscribeBoardActivity(boardId, (activity) => {
+      if (!matchesActivityFilters(activity, filters)) return
+      setEntries((prev) => (prev.some((a) => a.id === activity.id) ? prev : [activity, ...prev]))
+    })
+  }, [isOpen, boardId, filters])
+
+  const loadMore = useCallback(async () => {
+    if (!boardId || loadingRef.current || entries.length === 0) return
+
+    loadingRef.current = true
+    const page = await getBoardActivity(boardId, filters, entries[entries.length - 1])
+    setEntries((prev) => [...prev, ...page.filter((a) => !prev.some((p) => p.id === a.id))])
+    setHasMore(page.length === ACTIVITY_PAGE_SIZE)
+    loadingRef.current = false
+  }, [boardId, filters, entries])
+
+  // Next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore) return
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) loadMore()
+    })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loadMore])
+
+  if (!isOpen) return null
+
+  const updateFilters = (changes: Partial<ActivityFilters>) => setFilters((prev) => ({ ...prev, ...changes }))
+
+  const toggleAction = (action: ActivityAction) => {
+    updateFilters({
+      actions: filters.actions.includes(action)
+        ? filters.actions.filter((a) => a !== action)
+        : [...filters.actions, action],
+    })
+  }
+
+  const taskTitle = (taskId: string) => tasks.find((t) => t.id === taskId)?.title
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        onClick={onClose}
+        className="fixed inset-0 z-[9998] bg-black/30 backdrop-blur-[2px]"
+      />
+
+      <aside className="fixed top-0 right-0 bottom-0 z-[9999] w-full max-w-[400px] flex flex-col bg-[var(--color-surface)] shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-[var(--color-border)]">
+          <h2 className="text-[17px] font-semibold text-[var(--color-text-primary)]">Atividade</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1.5 rounded-md text-[var(--color-text-muted)] hover:bg-[var(--color-bg-secondary)]"
+            aria-label="Fechar"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col gap-2 px-5 py-3 border-b border-[var(--color-border)] bg-[var(--color-bg)]">
+          <select
+            value={filters.userName ?? ''}
+            onChange={(e) => updateFilters({ userName: e.target.value || null })}
+            className={`${inputClassName} cursor-pointer`}
+            aria-label="Pessoa"
+          >
+            <option value="">Todas as pessoas</option>
+            {members.map((m) => (
+              <option key={m.id} value={m.name}>{m.name}</option>
+            ))}
+          </select>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={filters.from ?? ''}
+              onChange={(e) => updateFilters({ from: e.target.value || null })}
+              className={inputClassName}
+              aria-label="Desde"
+            />
+            <span className="text-sm text-[var(--color-text-muted)]">até</span>
+            <input
+              type="date"
+              value={filters.to ?? ''}
+              onChange={(e) => updateFilters({ to: e.target.value || null })}
+              className={inputClassName}
+              aria-label="Até"
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-1.5">
+            {ACTIONS.map((action) => {
+              const active = filters.actions.includes(action)
+              return (
+                <button
+                  key={action}
+                  type="button"
+                  onClick={() => toggleAction(action)}
+                  aria-pressed={active}
+                  className={`
+                    px-2 py-1 rounded-full text-xs font-medium transition-colors
+                    ${active
+                      ? 'bg-[var(--color-accent-light)] text-[var(--color-accent)]'
+                      : 'bg-[var(--color-bg-secondary)] text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'}
+                  `}
+                >
+                  {getActivityIcon(action)} {ACTIVITY_ACTION_LABELS[action]}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+
+        {/* Entries */}
+        <div className="flex-1 overflow-auto px-3 py-2">
+          {entries.map((activity) => {
+            const title = taskTitle(activity.task_id)
+            return (
+              <button
+                key={activity.id}
+                type="button"
+                onClick={() => onOpenTask(activity.task_id)}
+                className="w-full flex items-start gap-2.5 px-2 py-2 rounded-md text-left hover:bg-[var(--color-bg-secondary)] transition-colors"
+              >
+                <span className="text-sm leading-5">{getActivityIcon(activity.action)}</span>
+                <span className="flex-1 min-w-0">
+                  <span className="block text-[13px] font-medium text-[var(--color-text-primary)] truncate">
+                    {title ?? 'Tarefa fora do quadro'}
+                  </span>
+                  <span className="block text-[13px] text-[var(--color-text-secondary)]">
+                    {formatActivityMessage(activity, columns)}
+                  </span>
+                  <span
+                    className="block text-[11px] text-[var(--color-text-muted)]"
+                    title={new Date(activity.created_at).toLocaleString('pt-PT')}
+                  >
+                    {timeAgo(activity.created_at)}
+                  </span>
+                </span>
+              </button>
+            )
+          })}
+          {entries.length === 0 && (
+            <p className="py-6 text-sm text-center text-[var(--color-text-muted)]">Sem atividade</p>
+          )}
+          {hasMore && <div ref={sentinelRef} className="h-8" />}
+        </div>
+      </aside>
+    </>
+  )
+}
@@ -0,0 +1,227 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Image from 'next/image'
+import { Paperclip, Download, Trash2, Upload, ImageIcon, FileText } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useAuth } from '@/lib/AuthContext'
+import {
+  fetchAttachments,
+  uploadAttachment,
+  deleteAttachment,
+  setTaskCover,
+  getAttachmentUrl,
+  isImageAttachment,
+} from '@/lib/attachments'
+import { Task, TaskAttachment } from '@/lib/types'
+
+interface AttachmentsSectionProps {
+  task: Task
+}
+
+const iconButtonClassName = `
+  p-1 rounded text-[var(--color-text-muted)]
+  hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-secondary)]
+  transition-colors duration-150
+`
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export default function AttachmentsSection({ task }: AttachmentsSectionProps) {
+  const { user } = useAuth()
+  const userName = user?.name ?? 'Anónimo'
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [attachments, setAttachments] = useState<TaskAttachment[]>([])
+  const [coverPath, setCoverPath] = useState(task.cover_path)
+  const [uploading, setUploading] = useState(0)
+  const [isDragOver, setIsDragOver] = useState(false)
+
+  useEffect(() => {
+    fetchAttachments(task.id).then(setAttachments)
+  }, [task.id])
+
+  const uploadFiles = async (files: File[]) => {
+    if (files.length === 0) return
+
+    setUploading((n) => n + files.length)
+    for (const file of files) {
+      const attachment = await uploadAttachment(task.id, file, userName)
+      setUploading((n) => n - 1)
+      if (!attachment) {
+        toast.error(`Erro ao carregar "${file.name}"`)
+        continue
+      }
+      setAttachments((prev) => [...prev, attachment])
+    }
+  }
+
+  // Pasting a screenshot anywhere in the open modal attaches it; plain text paste is untouched
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files || [])
+      if (files.length === 0) return
+      e.preventDefault()
+      uploadFiles(files)
+    }
+
+    document.addEventListener('paste', handlePaste)
+    return () => document.removeEventListener('paste', handlePaste)
+  })
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragOver(false)
+    uploadFiles(Array.from(e.dataTransfer.files))
+  }
+
+  const handleDelete = async (attachment: TaskAttachment) => {
+    const ok = await deleteAttachment(attachment)
+    if (!ok) {
+      toast.error('Erro ao eliminar anexo')
+      return
+    }
+    setAttachments((prev) => prev.filter((a) => a.id !== attachment.id))
+
+    if (coverPath === attachment.path) {
+      await setTaskCover(task.id, null)
+      setCoverPath(null)
+    }
+  }
+
+  const handleToggleCover = async (attachment: TaskAttachment) => {
+    const next = coverPath === attachment.path ? null : attachment.path
+    const ok = await setTaskCover(task.id, next)
+    if (!ok) {
+      toast.error('Erro ao definir capa')
+      return
+    }
+    setCoverPath(next)
+  }
+
+  const images = attachments.filter(isImageAttachment)
+  const files = attachments.filter((a) => !isImageAttachment(a))
+
+  return (
+    <div>
+      <label className="flex items-center gap-1 mb-1 text-[13px] font-medium text-[var(--color-text-secondary)]">
+        <Paperclip size={14} />
+        Anexos
+        {attachments.length > 0 && (
+          <span className="text-[var(--color-text-muted)] tabular-nums">({attachments.length})</span>
+        )}
+      </label>
+
+      {/* Image thumbnails */}
+      {images.length > 0 && (
+        <div className="grid grid-cols-3 gap-2 mb-2">
+          {images.map((attachment) => {
+            const url = getAttachmentUrl(attachment.path)
+            const isCover = coverPath === attachment.path
+            return (
+              <div
+                key={attachment.id}
+                className={`
+                  group relative aspect-video rounded-md overflow-hidden bg-[var(--color-bg-secondary)]
+                  ${isCover ? 'ring-2 ring-[var(--color-accent)]' : ''}
+                `}
+              >
+                <a href={url} target="_blank" rel="noopener noreferrer" title={attachment.name}>
+                  <Image src={url} alt={attachment.name} fill unoptimized className="object-cover" />
+                </a>
+                <div className="absolute top-1 right-1 flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    type="button"
+                    onClick={() => handleToggleCover(attachment)}
+                    className="p-1 rounded bg-black/50 text-white hover:bg-black/70"
+                    title={isCover ? 'Remover capa' : 'Usar como capa'}
+                  >
+                    <ImageIcon size={12} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(attachment)}
+                    className="p-1 rounded bg-black/50 text-white hover:bg-red-600"
+                    title="Eliminar anexo"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {/* Other files */}
+      {files.length > 0 && (
+        <div className="flex flex-col gap-1 mb-2">
+          {files.map((attachment) => (
+            <div key={attachment.id} className="group flex items-center gap-2 py-0.5">
+              <FileText size={14} className="text-[var(--color-text-muted)] flex-shrink-0" />
+              <span className="flex-1 truncate text-sm text-[var(--color-text-primary)]" title={attachment.name}>
+                {attachment.name}
+              </span>
+              <span className="text-xs text-[var(--color-text-muted)] tabular-nums">
+                {formatSize(attachment.size)}
+              </span>
+              <a
+                href={getAttachmentUrl(attachment.path)}
+                download={attachment.name}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={iconButtonClassName}
+                title="Descarregar"
+              >
+                <Download size={14} />
+              </a>
+              <button
+                type="button"
+                onClick={() => handleDelete(attachment)}
+                className={`${iconButtonClassName} hover:text-red-500`}
+                title="Eliminar anexo"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Drop zone */}
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault()
+          setIsDragOver(true)
+        }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+        className={`
+          w-full flex items-center justify-center gap-2 py-3 rounded-md text-sm
+          border border-dashed transition-colors duration-150
+          ${isDragOver
+            ? 'border-[var(--color-accent)] bg-[var(--color-accent-light)] text-[var(--color-accent)]'
+            : 'border-[var(--color-border)] text-[var(--color-text-muted)] hover:bg-[var(--color-bg-secondary)]'}
+        `}
+      >
+        <Upload size={14} />
+        {uploading > 0 ? 'A carregar...' : 'Arraste, cole ou clique para anexar'}
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          uploadFiles(Array.from(e.target.files || []))
+          e.target.value = ''
+        }}
+      />
+    </div>
+  )
+}
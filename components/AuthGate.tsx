@@ -0,0 +1,24 @@
+'use client'
+
+import { ReactNode } from 'react'
+import { useAuth } from '@/lib/AuthContext'
+import LoginScreen from './LoginScreen'
+
+// Only render the app once a user is signed in
+export default function AuthGate({ children }: { children: ReactNode }) {
+  const { user, loading } = useAuth()
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-[var(--color-bg)]">
+        <div className="text-[var(--color-text-muted)]">A carregar...</div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return <LoginScreen />
+  }
+
+  return <>{children}</>
+}
@@ -0,0 +1,44 @@
+'use client'
+
+import { useState } from 'react'
+import { Member, getColor } from '@/lib/types'
+
+interface AvatarProps {
+  member: Member | undefined
+  size?: number
+}
+
+// Avatar with image and initial fallback in the member's color
+export default function Avatar({ member, size = 24 }: AvatarProps) {
+  const [imgError, setImgError] = useState(false)
+  const label = member?.name || '?'
+  const initial = label.charAt(0).toUpperCase()
+  const color = getColor(member?.color)
+
+  if (!member?.avatar_url || imgError) {
+    return (
+      <div
+        className={`
+          flex items-center justify-center rounded-full font-semibold flex-shrink-0
+          ${color.softBg} ${color.softText}
+          ${member && !member.active ? 'opacity-50' : ''}
+        `}
+        style={{ width: size, height: size, fontSize: size * 0.45 }}
+        title={label}
+      >
+        {initial}
+      </div>
+    )
+  }
+
+  return (
+    <img
+      src={member.avatar_url}
+      alt={label}
+      title={label}
+      onError={() => setImgError(true)}
+      className={`rounded-full object-cover flex-shrink-0 ${member.active ? '' : 'opacity-50 grayscale'}`}
+      style={{ width: size, height: size }}
+    />
+  )
+}
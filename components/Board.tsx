@@ -12,37 +12,59 @@ import {
   useSensors,
   closestCorners,
 } from '@dnd-kit/core'
-import { arrayMove } from '@dnd-kit/sortable'
-import { Filter, Plus, RefreshCw, CheckCircle2, CalendarClock, Tag, Sun, Moon, LayoutGrid, Calendar } from 'lucide-react'
+import { Plus, RefreshCw, CheckCircle2, CalendarClock, Sun, Moon, LayoutGrid, Calendar, LogOut, Users, Columns3, Settings2, Tags, Trash2, History } from 'lucide-react'
 import toast, { Toaster } from 'react-hot-toast'
 import confetti from 'canvas-confetti'
-import { addDays, addWeeks, addMonths } from 'date-fns'
 import { supabase } from '@/lib/supabase'
 import { useTheme } from '@/lib/ThemeContext'
+import { useAuth } from '@/lib/AuthContext'
+import { useMembers } from '@/lib/MembersContext'
+import { useTags } from '@/lib/TagsContext'
 import { logActivity } from '@/lib/activity'
+import { fetchColumns, isDoneStatus, getFirstOpenColumn } from '@/lib/columns'
+import { fetchBoards, moveTaskToBoard } from '@/lib/boards'
+import { purgeExpiredTasks, trashTask } from '@/lib/trash'
+import { FIELD_LABELS, FieldChange, diffTaskFields, revertFieldChanges } from '@/lib/fieldChanges'
+import { checkDueNotifications, notifyAssignee } from '@/lib/notifications'
+import { rescheduleTaskReminders, startReminderScheduler } from '@/lib/reminders'
+import { Due, formatDue, isDueChanged, isDueToday } from '@/lib/dueDates'
+import { EMPTY_FILTER, matchesFilter } from '@/lib/filters'
+import { fetchDependencies } from '@/lib/dependencies'
+import { requestNextOccurrence } from '@/lib/occurrences'
+import { createSeries, fetchSeries, setSkippedDates, updateFutureOccurrences } from '@/lib/series'
+import { taskRepository, TaskChanges } from '@/lib/tasks'
+import { registerOfflineShell } from '@/lib/offline'
+import { compareRanks, needsRebalance, rankBetween, spreadRanks } from '@/lib/rank'
+import { createUndoHistory, HistoryEntry, TaskSnapshotChange } from '@/lib/history'
 import {
   Task,
   TaskStatus,
   Assignee,
   CreateTaskInput,
-  COLUMNS,
-  ASSIGNEES,
-  TAGS,
-  TagId,
-  Recurrence,
+  BoardColumn,
+  KanbanBoard,
+  TaskFilter,
+  TaskDependency,
+  SeriesFields,
 } from '@/lib/types'
 import Column from './Column'
 import TaskCard from './TaskCard'
 import TaskModal from './TaskModal'
 import CalendarView from './CalendarView'
-import { isToday, format } from 'date-fns'
+import MembersModal from './MembersModal'
+import ColumnsModal from './ColumnsModal'
+import BoardModal from './BoardModal'
+import TagsModal from './TagsModal'
+import TrashModal from './TrashModal'
+import ActivityFeed from './ActivityFeed'
+import FilterBar from './FilterBar'
+import SyncIndicator from './SyncIndicator'
+import NotificationBell from './NotificationBell'
+import { format } from 'date-fns'
 
 // View types
 type ViewMode = 'kanban' | 'calendar'
 
-// Current user name - in a real app, this would come from auth
-const CURRENT_USER = 'Guilherme'
-
 // Fire confetti celebration
 const fireConfetti = () => {
   const count = 200
@@ -83,35 +105,43 @@ const fireConfetti = () => {
   })
 }
 
-// Calculate next due date based on recurrence
-function getNextDueDate(currentDueDate: string, recurrence: Recurrence): string {
-  const date = new Date(currentDueDate)
-  switch (recurrence) {
-    case 'daily':
-      return addDays(date, 1).toISOString().split('T')[0]
-    case 'weekly':
-      return addWeeks(date, 1).toISOString().split('T')[0]
-    case 'monthly':
-      return addMonths(date, 1).toISOString().split('T')[0]
-    default:
-      return currentDueDate
-  }
-}
-
 export default function Board() {
   const { theme, toggleTheme } = useTheme()
+  const { user, signOut } = useAuth()
+  const currentUserName = user?.name ?? 'Anónimo'
+  const { members, currentMember } = useMembers()
+  const { tags } = useTags()
+  const [boards, setBoards] = useState<KanbanBoard[]>([])
+  const [currentBoardId, setCurrentBoardId] = useState<string | null>(null)
+  const currentBoard = boards.find((b) => b.id === currentBoardId)
+  const boardMembers = members.filter((m) => currentBoard?.member_ids.includes(m.id))
+  // Signed-in person is the default assignee when linked to a member of this board
+  const defaultAssignee: Assignee =
+    (currentMember && boardMembers.some((m) => m.id === currentMember.id) ? currentMember.id : undefined) ??
+    boardMembers.find((m) => m.active)?.id ??
+    ''
   const [tasks, setTasks] = useState<Task[]>([])
+  const [columns, setColumns] = useState<BoardColumn[]>([])
   const [loading, setLoading] = useState(true)
-  const [filterAssignee, setFilterAssignee] = useState<Assignee | 'all'>('all')
-  const [filterTag, setFilterTag] = useState<TagId | 'all'>('all')
+  const [filter, setFilter] = useState<TaskFilter>(EMPTY_FILTER)
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([])
+  const [history] = useState(createUndoHistory)
   
   // View mode state
   const [viewMode, setViewMode] = useState<ViewMode>('kanban')
 
+  // Board, members, columns and tags management modals
+  const [boardModal, setBoardModal] = useState<'create' | 'edit' | null>(null)
+  const [isMembersOpen, setIsMembersOpen] = useState(false)
+  const [isColumnsOpen, setIsColumnsOpen] = useState(false)
+  const [isTagsOpen, setIsTagsOpen] = useState(false)
+  const [isTrashOpen, setIsTrashOpen] = useState(false)
+  const [isActivityOpen, setIsActivityOpen] = useState(false)
+
   // Modal state
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [editingTask, setEditingTask] = useState<Task | null>(null)
-  const [defaultColumnForNewTask, setDefaultColumnForNewTask] = useState<TaskStatus>('todo')
+  const [defaultColumnForNewTask, setDefaultColumnForNewTask] = useState<TaskStatus>('')
   const [defaultDueDate, setDefaultDueDate] = useState<string | undefined>(undefined)
 
   // Drag state
@@ -121,6 +151,12 @@ export default function Board() {
   
   // Track previous status for confetti trigger
   const previousStatusRef = useRef<Map<string, TaskStatus>>(new Map())
+  // Latest columns for the realtime handler, which is subscribed once
+  const columnsRef = useRef<BoardColumn[]>([])
+
+  useEffect(() => {
+    columnsRef.current = columns
+  }, [columns])
 
   // Configure drag sensors
   const sensors = useSensors(
@@ -131,19 +167,51 @@ export default function Board() {
     })
   )
 
-  // Fetch tasks from Supabase
+  // Apply fetched boards, keeping the current (or last used) board when it still exists
+  const applyBoards = useCallback((fetchedBoards: KanbanBoard[]) => {
+    setBoards(fetchedBoards)
+    setCurrentBoardId((current) => {
+      const preferred = current || localStorage.getItem('kanban-board-id')
+      return fetchedBoards.find((b) => b.id === preferred)?.id ?? fetchedBoards[0]?.id ?? null
+    })
+    if (fetchedBoards.length === 0) {
+      setLoading(false)
+    }
+  }, [])
+
+  const refreshBoards = useCallback(async () => {
+    applyBoards(await fetchBoards())
+  }, [applyBoards])
+
+  useEffect(() => {
+    fetchBoards().then(applyBoards)
+  }, [applyBoards])
+
+  useEffect(() => {
+    registerOfflineShell()
+  }, [])
+
+  // Due soon and overdue notifications for the signed-in person's tasks on this board
+  useEffect(() => {
+    if (currentMember) checkDueNotifications(currentMember, tasks, columns)
+  }, [currentMember, tasks, columns])
+
+  // Switch board
+  const handleBoardChange = (boardId: string) => {
+    setCurrentBoardId(boardId)
+    localStorage.setItem('kanban-board-id', boardId)
+  }
+
+  // Fetch tasks of the current board from Supabase
   const fetchTasks = useCallback(async () => {
-    const { data, error } = await supabase
-      .from('tasks')
-      .select('*')
-      .order('position', { ascending: true })
+    if (!currentBoardId) return
+
+    const { data: fetchedTasks, error } = await taskRepository.list(currentBoardId)
 
     if (error) {
       console.error('Error fetching tasks:', error)
       return
     }
-
-    const fetchedTasks = data || []
     
     // Initialize previous status tracking
     fetchedTasks.forEach((task) => {
@@ -152,7 +220,13 @@ export default function Board() {
     
     setTasks(fetchedTasks)
     setLoading(false)
-  }, [])
+  }, [currentBoardId])
+
+  // Fetch workflow columns of the current board
+  const refreshColumns = useCallback(async () => {
+    if (!currentBoardId) return
+    setColumns(await fetchColumns(currentBoardId))
+  }, [currentBoardId])
 
   // Load view preference from localStorage
   useEffect(() => {
@@ -168,46 +242,24 @@ export default function Board() {
     localStorage.setItem('kanban-view-mode', mode)
   }
 
-  // Initial fetch and real-time subscription
+  // Columns are edited rarely, so just refetch on any change
   useEffect(() => {
-    fetchTasks()
+    if (!currentBoardId) return
+
+    fetchColumns(currentBoardId).then(setColumns)
 
-    // Subscribe to real-time changes
     const channel = supabase
-      .channel('tasks-channel')
+      .channel(`board-columns-channel-${currentBoardId}`)
       .on(
         'postgres_changes',
-        { event: '*', schema: 'public', table: 'tasks' },
-        (payload) => {
-          if (payload.eventType === 'INSERT') {
-            const newTask = payload.new as Task
-            previousStatusRef.current.set(newTask.id, newTask.status)
-            setTasks((prev) => [...prev, newTask])
-          } else if (payload.eventType === 'UPDATE') {
-            const updatedTask = payload.new as Task
-            const prevStatus = previousStatusRef.current.get(updatedTask.id)
-            
-            // Fire confetti if task was moved to done
-            if (prevStatus !== 'done' && updatedTask.status === 'done') {
-              fireConfetti()
-            }
-            
-            previousStatusRef.current.set(updatedTask.id, updatedTask.status)
-            
-            // Use functional update to ensure we have latest state
-            setTasks((prev) => {
-              // Check if task already has the same updated_at (already applied locally)
-              const existingTask = prev.find(t => t.id === updatedTask.id)
-              if (existingTask && existingTask.updated_at === updatedTask.updated_at) {
-                // Skip update if already applied (same timestamp)
-                return prev
-              }
-              return prev.map((t) => (t.id === updatedTask.id ? updatedTask : t))
-            })
-          } else if (payload.eventType === 'DELETE') {
-            previousStatusRef.current.delete(payload.old.id)
-            setTasks((prev) => prev.filter((t) => t.id !== payload.old.id))
-          }
+        {
+          event: '*',
+          schema: 'public',
+          table: 'board_columns',
+          filter: `board_id=eq.${currentBoardId}`,
+        },
+        () => {
+          refreshColumns()
         }
       )
       .subscribe()
@@ -215,32 +267,131 @@ export default function Board() {
     return () => {
       supabase.removeChannel(channel)
     }
-  }, [fetchTasks])
+  }, [currentBoardId, refreshColumns])
 
-  // Filter tasks by assignee and tag
-  const filteredTasks = tasks.filter((t) => {
-    const matchesAssignee = filterAssignee === 'all' || t.assignee === filterAssignee
-    const matchesTag = filterTag === 'all' || (t.tags && t.tags.includes(filterTag))
-    return matchesAssignee && matchesTag
-  })
+  const refreshDependencies = useCallback(async () => {
+    setDependencies(await fetchDependencies())
+  }, [])
+
+  // Dependency links, refetched on any change
+  useEffect(() => {
+    fetchDependencies().then(setDependencies)
+
+    const channel = supabase
+      .channel('dependencies-channel')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'task_dependencies' },
+        () => {
+          refreshDependencies()
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [refreshDependencies])
+
+  // Initial fetch and real-time subscription, scoped to the current board
+  useEffect(() => {
+    if (!currentBoardId) return
+
+    fetchTasks()
+    purgeExpiredTasks(currentBoardId)
+
+    // Subscribe to real-time changes
+    return taskRepository.subscribe(currentBoardId, (change) => {
+      if (change.type === 'insert') {
+        const newTask = change.task
+        previousStatusRef.current.set(newTask.id, newTask.status)
+        // A task created offline is already on the board when the server echoes it back
+        setTasks((prev) =>
+          prev.some((t) => t.id === newTask.id)
+            ? prev.map((t) => (t.id === newTask.id ? newTask : t))
+            : [...prev, newTask]
+        )
+      } else if (change.type === 'update') {
+        const updatedTask = change.task
+
+        // Task was moved to another board or to the trash
+        if (updatedTask.board_id !== currentBoardId || updatedTask.deleted_at) {
+          previousStatusRef.current.delete(updatedTask.id)
+          setTasks((prev) => prev.filter((t) => t.id !== updatedTask.id))
+          return
+        }
+
+        const prevStatus = previousStatusRef.current.get(updatedTask.id)
+        
+        // Fire confetti if task was moved to a done column
+        const doneColumns = columnsRef.current
+        if (
+          !isDoneStatus(doneColumns, prevStatus || '') &&
+          isDoneStatus(doneColumns, updatedTask.status)
+        ) {
+          fireConfetti()
+        }
+        
+        previousStatusRef.current.set(updatedTask.id, updatedTask.status)
+        
+        // Use functional update to ensure we have latest state
+        setTasks((prev) => {
+          // Check if task already has the same updated_at (already applied locally)
+          const existingTask = prev.find(t => t.id === updatedTask.id)
+          if (existingTask && existingTask.updated_at === updatedTask.updated_at) {
+            // Skip update if already applied (same timestamp)
+            return prev
+          }
+          // Restored from the trash
+          if (!existingTask) return [...prev, updatedTask]
+          return prev.map((t) => (t.id === updatedTask.id ? updatedTask : t))
+        })
+      } else {
+        previousStatusRef.current.delete(change.id)
+        setTasks((prev) => prev.filter((t) => t.id !== change.id))
+      }
+    })
+  }, [currentBoardId, fetchTasks])
+
+  // Filter tasks for both the kanban and the calendar
+  const filteredTasks = tasks.filter((t) => matchesFilter(t, filter, isDoneStatus(columns, t.status)))
 
   // Group tasks by status
-  const tasksByStatus = COLUMNS.reduce(
+  const tasksByStatus = columns.reduce(
     (acc, col) => ({
       ...acc,
       [col.id]: filteredTasks
         .filter((t) => t.status === col.id)
-        .sort((a, b) => a.position - b.position),
+        .sort((a, b) => compareRanks(a.rank, b.rank)),
     }),
     {} as Record<TaskStatus, Task[]>
   )
 
   // Calculate task statistics
   const totalTasks = filteredTasks.length
-  const completedTasks = filteredTasks.filter((t) => t.status === 'done').length
+  const completedTasks = filteredTasks.filter((t) => isDoneStatus(columns, t.status)).length
   const dueTodayTasks = filteredTasks.filter(
-    (t) => t.due_date && isToday(new Date(t.due_date)) && t.status !== 'done'
+    (t) => isDueToday(t) && !isDoneStatus(columns, t.status)
   ).length
+  const firstOpenColumnId = getFirstOpenColumn(columns)?.id ?? ''
+
+  // Tasks that must be done before this one can be
+  const getOpenBlockers = (taskId: string) =>
+    dependencies
+      .filter((d) => d.task_id === taskId)
+      .map((d) => tasks.find((t) => t.id === d.blocked_by_id))
+      .filter((t): t is Task => !!t && !isDoneStatus(columns, t.status))
+
+  const refuseIfBlocked = (task: Task, targetStatus: TaskStatus) => {
+    if (!isDoneStatus(columns, targetStatus) || isDoneStatus(columns, task.status)) return false
+
+    const blockers = getOpenBlockers(task.id)
+    if (blockers.length === 0) return false
+
+    toast.error(`Bloqueada por: ${blockers.map((t) => t.title).join(', ')}`)
+    return true
+  }
+  const columnTitle = (id: TaskStatus | undefined) => columns.find((col) => col.id === id)?.title
 
   // Handle drag start
   const handleDragStart = (event: DragStartEvent) => {
@@ -257,6 +408,81 @@ export default function Board() {
     // and drop zones are highlighted by useDroppable's isOver state
   }
 
+  // Next occurrence of a recurring task, generated server-side once the completion is saved
+  const createNextOccurrence = async (task: Task) => {
+    if (!task.recurrence) return
+
+    const result = await requestNextOccurrence(task.id, currentUserName)
+    if (!result) {
+      toast.error('Erro ao criar a próxima repetição')
+    } else if (result.ended) {
+      toast.success('Última repetição concluída')
+    } else if (result.created && result.task) {
+      toast.success(`Tarefa recorrente criada para ${result.task.due_date}`)
+    }
+  }
+
+  const handleUndo = async () => {
+    const { entry, error } = await history.undo(currentUserName)
+    if (error) {
+      toast.error('Não foi possível desfazer')
+    } else if (entry) {
+      toast.success(`Desfeito: ${entry.label}`)
+    }
+  }
+
+  const handleRedo = async () => {
+    const { entry, error } = await history.redo(currentUserName)
+    if (error) {
+      toast.error('Não foi possível refazer')
+    } else if (entry) {
+      toast.success(`Refeito: ${entry.label}`)
+    }
+  }
+
+  // Let the task's assignee know, unless they did it themselves
+  const notify = (task: Task, type: 'assigned' | 'status_changed', details?: Record<string, unknown>) =>
+    notifyAssignee(task, type, { name: currentUserName, memberId: currentMember?.id ?? null }, members, details)
+
+  // Remember an action for Ctrl+Z, and offer to undo it from the toast when there is one
+  const recordUndoable = (entry: HistoryEntry, message?: string) => {
+    history.record(entry)
+    if (!message) return
+
+    toast.success((t) => (
+      <span className="flex items-center gap-3">
+        {message}
+        <button
+          onClick={() => {
+            toast.dismiss(t.id)
+            handleUndo()
+          }}
+          className="font-semibold text-indigo-300 hover:text-white transition-colors"
+        >
+          Desfazer
+        </button>
+      </span>
+    ), { duration: 5000 })
+  }
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), left alone while typing so fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return
+      if (isModalOpen || (e.target as HTMLElement).closest('input, textarea, select, [contenteditable="true"]')) return
+
+      e.preventDefault()
+      if (e.shiftKey) {
+        handleRedo()
+      } else {
+        handleUndo()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  })
+
   // Handle drag end
   const handleDragEnd = async (event: DragEndEvent) => {
     const { active, over } = event
@@ -283,7 +509,7 @@ export default function Board() {
 
     // Determine target status
     let targetStatus: TaskStatus = activeTaskData.status
-    const isOverColumn = COLUMNS.some((col) => col.id === overId)
+    const isOverColumn = columns.some((col) => col.id === overId)
 
     if (isOverColumn) {
       targetStatus = overId as TaskStatus
@@ -294,129 +520,128 @@ export default function Board() {
       }
     }
 
-    // Optimistic update: immediately move card to target column for visual feedback
-    if (activeTaskData.status !== targetStatus) {
-      setTasks((prev) =>
-        prev.map((t) =>
-          t.id === activeId ? { ...t, status: targetStatus } : t
-        )
-      )
+    // A blocked task cannot be completed
+    if (refuseIfBlocked(activeTaskData, targetStatus)) {
+      setDndKey(prev => prev + 1)
+      return
     }
 
-    // Get tasks in target column
+    // Other tasks in the target column, in order
     const columnTasks = tasks
       .filter((t) => t.status === targetStatus)
-      .sort((a, b) => a.position - b.position)
+      .sort((a, b) => compareRanks(a.rank, b.rank))
+    const others = columnTasks.filter((t) => t.id !== activeId)
 
-    // Calculate new position
-    let newPosition: number
+    // Index the card ends up at among the others
+    let insertIndex: number
 
     if (isOverColumn) {
       // Dropped on column - add to end
-      newPosition = columnTasks.length > 0
-        ? Math.max(...columnTasks.map((t) => t.position)) + 1
-        : 0
+      insertIndex = others.length
     } else {
-      // Dropped on another task - insert before/after
+      // Dropped on another task - takes its place, pushing it down (or up when moving down the same column)
       const overIndex = columnTasks.findIndex((t) => t.id === overId)
       const activeIndex = columnTasks.findIndex((t) => t.id === activeId)
 
-      if (activeIndex !== -1 && activeIndex !== overIndex) {
-        // Reordering within same column
-        const newOrder = arrayMove(columnTasks, activeIndex, overIndex)
-        newPosition = overIndex
-
-        // Update positions for all affected tasks
-        const updates = newOrder.map((task, idx) => ({
-          id: task.id,
-          position: idx,
-        }))
-
-        for (const update of updates) {
-          await supabase
-            .from('tasks')
-            .update({ position: update.position })
-            .eq('id', update.id)
-        }
-        
-        // Force DndContext reset after reordering
+      if (activeIndex === overIndex) {
         setDndKey(prev => prev + 1)
         return
-      } else {
-        // Moving to different column
-        newPosition = overIndex >= 0 ? overIndex : columnTasks.length
       }
+      insertIndex = overIndex >= 0 ? overIndex : others.length
     }
 
-    // Update in Supabase
-    const updates: Partial<Task> = {
-      status: targetStatus,
-      position: newPosition,
+    // Only the moved card gets a new rank, between its new neighbours
+    const newRank = rankBetween(others[insertIndex - 1]?.rank ?? null, others[insertIndex]?.rank ?? null)
+
+    // Optimistic update: immediately move card to its new place for visual feedback
+    setTasks((prev) =>
+      prev.map((t) =>
+        t.id === activeId ? { ...t, status: targetStatus, rank: newRank } : t
+      )
+    )
+
+    const updates: TaskChanges = {
       updated_at: new Date().toISOString(),
     }
 
     // If moving to done, set completed_at
-    if (targetStatus === 'done' && originalStatus !== 'done') {
+    const isNowDone = isDoneStatus(columns, targetStatus)
+    if (isNowDone && !isDoneStatus(columns, originalStatus || '')) {
       updates.completed_at = new Date().toISOString()
-      
-      // Log completed activity
-      await logActivity(activeId, 'completed', CURRENT_USER)
-      
-      // Handle recurring tasks
-      if (activeTaskData.recurrence && activeTaskData.recurrence !== 'none' && activeTaskData.due_date) {
-        const nextDueDate = getNextDueDate(activeTaskData.due_date, activeTaskData.recurrence)
-        const todoTasks = tasks.filter(t => t.status === 'todo')
-        const maxPosition = todoTasks.length > 0 
-          ? Math.max(...todoTasks.map(t => t.position)) 
-          : -1
-
-        // Create next recurring task
-        const { data: newTask, error: createError } = await supabase
-          .from('tasks')
-          .insert({
-            title: activeTaskData.title,
-            description: activeTaskData.description,
-            status: 'todo',
-            priority: activeTaskData.priority,
-            assignee: activeTaskData.assignee,
-            due_date: nextDueDate,
-            tags: activeTaskData.tags,
-            recurrence: activeTaskData.recurrence,
-            position: maxPosition + 1,
-          })
-          .select()
-          .single()
-
-        if (!createError && newTask) {
-          await logActivity(newTask.id, 'created', CURRENT_USER, { 
-            recurring: true, 
-            from_task: activeTaskData.id 
-          })
-          toast.success(`Tarefa recorrente criada para ${nextDueDate}`)
-        }
-      }
-    } else if (targetStatus !== 'done' && activeTaskData.completed_at) {
+    } else if (!isNowDone && activeTaskData.completed_at) {
       updates.completed_at = null
     }
-    
+
+    const { data: moved, error } = await taskRepository.move(activeId, targetStatus, newRank, updates)
+    if (error) {
+      console.error('Error moving task:', error)
+      toast.error('Erro ao mover tarefa')
+      fetchTasks()
+      setDndKey(prev => prev + 1)
+      return
+    }
+
+    const changes: TaskSnapshotChange[] = [{ before: activeTaskData, after: moved }]
+
+    // Many moves into the same gap make long keys; respace the whole column now and then
+    if (needsRebalance(newRank)) {
+      const ids = others.map((t) => t.id)
+      ids.splice(insertIndex, 0, activeId)
+      const { error: rebalanceError } = await taskRepository.rebalance(ids)
+      if (rebalanceError) {
+        console.error('Error rebalancing column:', rebalanceError)
+      } else {
+        const ranks = spreadRanks(ids.length)
+        changes[0].after = { ...moved, rank: ranks[insertIndex] }
+        others.forEach((t) => changes.push({ before: t, after: { ...t, rank: ranks[ids.indexOf(t.id)] } }))
+      }
+    }
+
+    const isColumnChange = activeTaskData.status !== targetStatus
+    recordUndoable(
+      { label: `${isColumnChange ? 'mover' : 'reordenar'} "${activeTaskData.title}"`, changes },
+      isColumnChange ? `Movida para "${columnTitle(targetStatus)}"` : undefined
+    )
+
+    if (updates.completed_at) {
+      await logActivity(activeId, 'completed', currentUserName)
+    }
+
     // Log move activity if status changed
     if (originalStatus && originalStatus !== targetStatus) {
-      await logActivity(activeId, 'moved', CURRENT_USER, {
+      await logActivity(activeId, 'moved', currentUserName, {
         from: originalStatus,
         to: targetStatus,
+        from_title: columnTitle(originalStatus),
+        to_title: columnTitle(targetStatus),
       })
+      await notify({ ...activeTaskData, status: targetStatus }, 'status_changed', { to_title: columnTitle(targetStatus) })
     }
 
-    await supabase.from('tasks').update(updates).eq('id', activeId)
+    if (updates.completed_at) {
+      await createNextOccurrence(activeTaskData)
+    }
     
     // Force DndContext reset after drag completes
     setDndKey(prev => prev + 1)
   }
 
+  // A card added at the end of a column can still get a long key; respace the column then,
+  // as after a drag
+  const rebalanceIfNeeded = async (task: Task) => {
+    if (!needsRebalance(task.rank)) return
+
+    const ids = [...tasks.filter((t) => t.status === task.status && t.id !== task.id), task]
+      .sort((a, b) => compareRanks(a.rank, b.rank))
+      .map((t) => t.id)
+    const { error } = await taskRepository.rebalance(ids)
+    if (error) console.error('Error rebalancing column:', error)
+  }
+
   // Open modal to create new task
-  const openNewTaskModal = (status: TaskStatus = 'todo', dueDate?: string) => {
+  const openNewTaskModal = (status?: TaskStatus, dueDate?: string) => {
     setEditingTask(null)
-    setDefaultColumnForNewTask(status)
+    setDefaultColumnForNewTask(status || firstOpenColumnId)
     setDefaultDueDate(dueDate)
     setIsModalOpen(true)
   }
@@ -424,7 +649,7 @@ export default function Board() {
   // Handle calendar day click to create task with that date
   const handleCalendarDayClick = (date: Date) => {
     const formattedDate = format(date, 'yyyy-MM-dd')
-    openNewTaskModal('todo', formattedDate)
+    openNewTaskModal(undefined, formattedDate)
   }
 
   // Open modal to edit existing task
@@ -433,6 +658,40 @@ export default function Board() {
     setIsModalOpen(true)
   }
 
+  // Open a task from the board activity feed
+  const openTaskFromActivity = (taskId: string) => {
+    const task = tasks.find((t) => t.id === taskId)
+    if (!task) {
+      toast.error('Esta tarefa já não está neste quadro')
+      return
+    }
+    setIsActivityOpen(false)
+    openEditTaskModal(task)
+  }
+
+  // Open a task from a notification or reminder, switching to its board if needed
+  const openTaskById = async (taskId: string) => {
+    const { data: task, error } = await taskRepository.get(taskId)
+    if (error || task.deleted_at) {
+      toast.error('Esta tarefa já não existe')
+      return
+    }
+    if (task.board_id !== currentBoardId) handleBoardChange(task.board_id)
+    openEditTaskModal(task)
+  }
+
+  // Latest opener for the reminder scheduler, which runs for as long as the member is signed in
+  const openTaskRef = useRef(openTaskById)
+  useEffect(() => {
+    openTaskRef.current = openTaskById
+  })
+
+  const currentMemberId = currentMember?.id
+  useEffect(() => {
+    if (!currentMemberId) return
+    return startReminderScheduler(currentMemberId, (taskId) => openTaskRef.current(taskId))
+  }, [currentMemberId])
+
   // Close modal
   const closeModal = () => {
     setIsModalOpen(false)
@@ -442,26 +701,14 @@ export default function Board() {
 
   // Quick add task (from column input)
   const handleQuickAdd = async (title: string, status: TaskStatus) => {
-    const columnTasks = tasks.filter((t) => t.status === status)
-    const maxPosition = columnTasks.length > 0
-      ? Math.max(...columnTasks.map((t) => t.position))
-      : -1
-
-    const { data, error } = await supabase
-      .from('tasks')
-      .insert({
-        title,
-        description: null,
-        status,
-        priority: 'medium',
-        assignee: 'guilherme',
-        due_date: null,
-        tags: [],
-        recurrence: 'none',
-        position: maxPosition + 1,
-      })
-      .select()
-      .single()
+    if (!currentBoardId) return
+
+    const { data, error } = await taskRepository.create({
+      board_id: currentBoardId,
+      title,
+      status,
+      assignee: defaultAssignee,
+    })
 
     if (error) {
       console.error('Error creating task:', error)
@@ -469,42 +716,45 @@ export default function Board() {
       return
     }
     
+    await rebalanceIfNeeded(data)
+
     // Log activity
-    if (data) {
-      await logActivity(data.id, 'created', CURRENT_USER)
-    }
+    await logActivity(data.id, 'created', currentUserName)
     
-    toast.success('Tarefa criada!')
+    recordUndoable({ label: `criar "${data.title}"`, changes: [{ before: null, after: data }] }, 'Tarefa criada!')
   }
 
   // Save task (create or update)
   const handleSaveTask = async (data: CreateTaskInput & { id?: string }) => {
+    const seriesFields: SeriesFields = {
+      title: data.title,
+      description: data.description || null,
+      priority: data.priority || 'medium',
+      assignee: data.assignee || defaultAssignee,
+      tags: data.tags || [],
+      recurrence: data.recurrence ?? null,
+    }
+
     if (data.id) {
       // Get current task to check changes
       const currentTask = tasks.find((t) => t.id === data.id)
-      const wasNotDone = currentTask?.status !== 'done'
-      const isNowDone = data.status === 'done'
-      
-      // Track what changed
-      const changes: string[] = []
-      if (currentTask?.title !== data.title) changes.push('título')
-      if (currentTask?.description !== (data.description || null)) changes.push('descrição')
-      if (currentTask?.priority !== data.priority) changes.push('prioridade')
-      if (currentTask?.assignee !== data.assignee) changes.push('responsável')
-      if (currentTask?.due_date !== (data.due_date || null)) changes.push('data limite')
-      if (currentTask?.recurrence !== (data.recurrence || 'none')) changes.push('repetição')
-      if (JSON.stringify(currentTask?.tags || []) !== JSON.stringify(data.tags || [])) changes.push('etiquetas')
+      if (currentTask && data.status && refuseIfBlocked(currentTask, data.status)) return
+
+      const wasNotDone = !isDoneStatus(columns, currentTask?.status || '')
+      const isNowDone = isDoneStatus(columns, data.status || '')
       
       // Update existing task
-      const updateData: Partial<Task> & { updated_at: string } = {
+      const updateData: TaskChanges & { updated_at: string } = {
         title: data.title,
         description: data.description || null,
         status: data.status,
         priority: data.priority,
         assignee: data.assignee,
         due_date: data.due_date || null,
+        due_time: data.due_time || null,
+        due_timezone: data.due_timezone || null,
         tags: data.tags || [],
-        recurrence: data.recurrence || 'none',
+        recurrence: data.recurrence ?? null,
         updated_at: new Date().toISOString(),
       }
       
@@ -514,62 +764,91 @@ export default function Board() {
       } else if (!isNowDone) {
         updateData.completed_at = null
       }
+
+      // A task moved to another column goes to its end, as when completed from the checklist
+      if (currentTask && data.status && data.status !== currentTask.status) {
+        const lastInColumn = tasks
+          .filter((t) => t.status === data.status && t.id !== currentTask.id)
+          .sort((a, b) => compareRanks(a.rank, b.rank))
+          .pop()
+        updateData.rank = rankBetween(lastInColumn?.rank ?? null, null)
+      }
+
+      // A task that starts repeating becomes the first occurrence of a new series
+      if (currentTask && data.recurrence && !currentTask.series_id) {
+        const series = await createSeries(currentTask.board_id, seriesFields)
+        if (series) updateData.series_id = series.id
+      }
       
-      const { error } = await supabase
-        .from('tasks')
-        .update(updateData)
-        .eq('id', data.id)
+      // Track what changed, with the old and new values
+      const fields = currentTask ? diffTaskFields(currentTask, updateData, { members, tags }) : []
+
+      const { data: updatedTask, error } = await taskRepository.update(data.id, updateData)
 
       if (error) {
         console.error('Error updating task:', error)
         toast.error('Erro ao atualizar tarefa')
         return
       }
+
+      if (updateData.rank) await rebalanceIfNeeded(updatedTask)
+
+      if (data.scope === 'future' && currentTask?.series_id) {
+        const ok = await updateFutureOccurrences(currentTask.series_id, currentTask.recurrence_index, seriesFields)
+        if (!ok) toast.error('Erro ao atualizar as próximas repetições')
+      }
       
       // Log activity
       if (wasNotDone && isNowDone) {
-        await logActivity(data.id, 'completed', CURRENT_USER)
+        await logActivity(data.id, 'completed', currentUserName)
         
-        // Handle recurring tasks
-        if (currentTask && currentTask.recurrence && currentTask.recurrence !== 'none' && currentTask.due_date) {
-          const nextDueDate = getNextDueDate(currentTask.due_date, currentTask.recurrence)
-          const todoTasks = tasks.filter(t => t.status === 'todo')
-          const maxPosition = todoTasks.length > 0 
-            ? Math.max(...todoTasks.map(t => t.position)) 
-            : -1
-
-          // Create next recurring task
-          const { data: newTask, error: createError } = await supabase
-            .from('tasks')
-            .insert({
-              title: currentTask.title,
-              description: currentTask.description,
-              status: 'todo',
-              priority: currentTask.priority,
-              assignee: currentTask.assignee,
-              due_date: nextDueDate,
-              tags: currentTask.tags,
-              recurrence: currentTask.recurrence,
-              position: maxPosition + 1,
-            })
-            .select()
-            .single()
-
-          if (!createError && newTask) {
-            await logActivity(newTask.id, 'created', CURRENT_USER, { 
-              recurring: true, 
-              from_task: currentTask.id 
-            })
-            toast.success(`Tarefa recorrente criada para ${nextDueDate}`)
-          }
+        if (currentTask) {
+          await createNextOccurrence(currentTask)
         }
       } else if (currentTask?.status !== data.status) {
-        await logActivity(data.id, 'moved', CURRENT_USER, {
+        await logActivity(data.id, 'moved', currentUserName, {
           from: currentTask?.status,
           to: data.status,
+          from_title: columnTitle(currentTask?.status),
+          to_title: columnTitle(data.status),
         })
-      } else if (changes.length > 0) {
-        await logActivity(data.id, 'updated', CURRENT_USER, { changes })
+      }
+      // Edits saved together with a move or completion are logged as well
+      if (fields.length > 0) {
+        await logActivity(data.id, 'updated', currentUserName, { fields })
+      }
+
+      if (currentTask && currentTask.status !== updatedTask.status) {
+        await notify(updatedTask, 'status_changed', { to_title: columnTitle(updatedTask.status) })
+      }
+      if (fields.some((f) => f.field === 'assignee')) {
+        await notify(updatedTask, 'assigned')
+      }
+      if (currentTask && isDueChanged(currentTask, updatedTask)) {
+        await rescheduleTaskReminders(updatedTask)
+      }
+
+      // Move to another board, keeping the task id and therefore its activity history
+      if (currentTask && data.board_id && data.board_id !== currentTask.board_id) {
+        const targetBoard = boards.find((b) => b.id === data.board_id)
+        const moved = await moveTaskToBoard(data.id, data.board_id, isNowDone)
+        if (!moved) {
+          toast.error('Erro ao mover tarefa para outro quadro')
+          return
+        }
+
+        await logActivity(data.id, 'moved', currentUserName, {
+          from_board: currentTask.board_id,
+          to_board: data.board_id,
+          from_board_name: currentBoard?.name,
+          to_board_name: targetBoard?.name,
+        })
+
+        previousStatusRef.current.delete(data.id)
+        setTasks((prev) => prev.filter((t) => t.id !== data.id))
+        toast.success(`Tarefa movida para "${targetBoard?.name}"`)
+        closeModal()
+        return
       }
       
       // Optimistic update - update local state immediately
@@ -584,29 +863,29 @@ export default function Board() {
         )
       )
       
-      toast.success('Tarefa atualizada!')
+      if (currentTask) {
+        recordUndoable(
+          { label: `editar "${currentTask.title}"`, changes: [{ before: currentTask, after: updatedTask }] },
+          'Tarefa atualizada!'
+        )
+      } else {
+        toast.success('Tarefa atualizada!')
+      }
     } else {
       // Create new task
-      const columnTasks = tasks.filter((t) => t.status === data.status)
-      const maxPosition = columnTasks.length > 0
-        ? Math.max(...columnTasks.map((t) => t.position))
-        : -1
-
-      const { data: newTask, error } = await supabase
-        .from('tasks')
-        .insert({
-          title: data.title,
-          description: data.description || null,
-          status: data.status || 'todo',
-          priority: data.priority || 'medium',
-          assignee: data.assignee || 'guilherme',
-          due_date: data.due_date || null,
-          tags: data.tags || [],
-          recurrence: data.recurrence || 'none',
-          position: maxPosition + 1,
-        })
-        .select()
-        .single()
+      if (!currentBoardId) return
+
+      const series = data.recurrence ? await createSeries(currentBoardId, seriesFields) : null
+
+      const { data: newTask, error } = await taskRepository.create({
+        ...seriesFields,
+        board_id: currentBoardId,
+        status: data.status || firstOpenColumnId,
+        due_date: data.due_date || null,
+        due_time: data.due_time || null,
+        due_timezone: data.due_timezone || null,
+        series_id: series?.id ?? null,
+      })
 
       if (error) {
         console.error('Error creating task:', error)
@@ -614,26 +893,153 @@ export default function Board() {
         return
       }
       
+      await rebalanceIfNeeded(newTask)
+
       // Log activity
-      if (newTask) {
-        await logActivity(newTask.id, 'created', CURRENT_USER)
-      }
+      await logActivity(newTask.id, 'created', currentUserName)
+      await notify(newTask, 'assigned')
       
-      toast.success('Tarefa criada!')
+      recordUndoable({ label: `criar "${newTask.title}"`, changes: [{ before: null, after: newTask }] }, 'Tarefa criada!')
     }
 
     closeModal()
   }
 
-  // Delete task
+  // Last checklist item ticked on a task that completes itself
+  const handleChecklistComplete = async (task: Task) => {
+    const doneColumn = columns.find((c) => c.is_done)
+    if (!doneColumn || isDoneStatus(columns, task.status)) return
+    if (refuseIfBlocked(task, doneColumn.id)) return
+
+    const lastDone = tasks
+      .filter((t) => t.status === doneColumn.id)
+      .sort((a, b) => compareRanks(a.rank, b.rank))
+      .pop()
+    const rank = rankBetween(lastDone?.rank ?? null, null)
+    const updates: TaskChanges = {
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    }
+
+    const { data: completed, error } = await taskRepository.move(task.id, doneColumn.id, rank, updates)
+    if (error) {
+      console.error('Error completing task:', error)
+      toast.error('Erro ao concluir tarefa')
+      return
+    }
+    await rebalanceIfNeeded(completed)
+
+    await logActivity(task.id, 'completed', currentUserName, { checklist: true })
+    await notify(completed, 'status_changed', { to_title: doneColumn.title })
+    await createNextOccurrence(task)
+
+    setTasks((prev) => prev.map((t) => (t.id === task.id ? completed : t)))
+    recordUndoable(
+      { label: `concluir "${task.title}"`, changes: [{ before: task, after: completed }] },
+      'Lista concluída, tarefa concluída!'
+    )
+    closeModal()
+  }
+
+  // Promote a checklist item to a task of its own, in the same column and with the same person
+  const handleConvertChecklistItem = async (task: Task, title: string): Promise<boolean> => {
+    const { data, error } = await taskRepository.create({
+      board_id: task.board_id,
+      title,
+      status: task.status,
+      priority: task.priority,
+      assignee: task.assignee,
+      tags: task.tags,
+    })
+
+    if (error) {
+      console.error('Error converting checklist item:', error)
+      toast.error('Erro ao criar tarefa')
+      return false
+    }
+    await rebalanceIfNeeded(data)
+
+    await logActivity(data.id, 'created', currentUserName, { from_task: task.id })
+    await notify(data, 'assigned')
+    recordUndoable({ label: `criar "${data.title}"`, changes: [{ before: null, after: data }] }, 'Item convertido em tarefa!')
+    return true
+  }
+
+  // Put back the old value of one field from the task's history
+  const handleRevertField = async (taskId: string, change: FieldChange) => {
+    const task = tasks.find((t) => t.id === taskId)
+    if (!task) return
+
+    // Skipped dates belong to the task's series, which the undo history does not cover
+    if (change.field === 'skipped_dates') {
+      const series = task.series_id ? await fetchSeries(task.series_id) : null
+      const skipped = change.from as string[]
+      if (!series || !(await setSkippedDates(series.id, skipped))) {
+        toast.error('Erro ao reverter alteração')
+        return
+      }
+      await logActivity(taskId, 'updated', currentUserName, {
+        fields: diffTaskFields({ ...task, skipped_dates: series.skipped_dates }, { skipped_dates: skipped }, { members, tags }),
+      })
+      toast.success('Alteração revertida')
+      return
+    }
+
+    const { data: reverted, error } = await taskRepository.update(taskId, revertFieldChanges(change, task))
+
+    if (error) {
+      console.error('Error reverting change:', error)
+      toast.error('Erro ao reverter alteração')
+      return
+    }
+
+    await logActivity(taskId, 'updated', currentUserName, { fields: diffTaskFields(task, reverted, { members, tags }) })
+    if (change.field === 'assignee') await notify(reverted, 'assigned')
+    if (isDueChanged(task, reverted)) await rescheduleTaskReminders(reverted)
+    setTasks((prev) => prev.map((t) => (t.id === taskId ? reverted : t)))
+    if (editingTask?.id === taskId) setEditingTask(reverted)
+
+    recordUndoable(
+      { label: `reverter ${FIELD_LABELS[change.field]} de "${task.title}"`, changes: [{ before: task, after: reverted }] },
+      'Alteração revertida'
+    )
+  }
+
+  // Task dragged to another day in the calendar (or on or off the unscheduled list)
+  const handleReschedule = async (task: Task, due: Partial<Due>) => {
+    const fields = diffTaskFields(task, due, { members, tags })
+    if (fields.length === 0) return
+
+    // Optimistic update, so the pill stays where it was dropped
+    setTasks((prev) => prev.map((t) => (t.id === task.id ? { ...t, ...due } : t)))
+
+    const { data: rescheduled, error } = await taskRepository.update(task.id, due)
+    if (error) {
+      console.error('Error rescheduling task:', error)
+      toast.error('Erro ao alterar a data')
+      fetchTasks()
+      return
+    }
+
+    await logActivity(task.id, 'updated', currentUserName, { fields })
+    await rescheduleTaskReminders(rescheduled)
+
+    recordUndoable(
+      { label: `reagendar "${task.title}"`, changes: [{ before: task, after: rescheduled }] },
+      rescheduled.due_date ? `Agendada para ${formatDue(rescheduled)}` : 'Data removida'
+    )
+  }
+
+  // Delete task (moves it to the trash)
   const handleDeleteTask = async (id: string, fromModal: boolean = true) => {
-    // Log activity before delete
-    await logActivity(id, 'deleted', CURRENT_USER)
+    const deletedTask = tasks.find((t) => t.id === id)
+
+    await logActivity(id, 'deleted', currentUserName)
     
     // Optimistic update - remove from local state immediately
     setTasks((prev) => prev.filter((t) => t.id !== id))
     
-    const { error } = await supabase.from('tasks').delete().eq('id', id)
+    const { data, error } = await trashTask(id, currentUserName)
 
     if (error) {
       console.error('Error deleting task:', error)
@@ -643,7 +1049,11 @@ export default function Board() {
       return
     }
 
-    toast.success('Tarefa eliminada!')
+    if (deletedTask) {
+      recordUndoable({ label: `eliminar "${deletedTask.title}"`, changes: [{ before: deletedTask, after: data }] }, 'Tarefa movida para o lixo')
+    } else {
+      toast.success('Tarefa movida para o lixo')
+    }
     if (fromModal) {
       closeModal()
     }
@@ -683,9 +1093,46 @@ export default function Board() {
                 Quadro Kanban
               </h1>
               <div className="flex items-center gap-4 mt-1">
-                <p className="text-sm text-[var(--color-text-muted)]">
-                  Guilherme & Safira
-                </p>
+                {/* Board switcher */}
+                <div className="flex items-center gap-1">
+                  <select
+                    value={currentBoardId ?? ''}
+                    onChange={(e) => {
+                      if (e.target.value === '__new__') {
+                        setBoardModal('create')
+                      } else {
+                        handleBoardChange(e.target.value)
+                      }
+                    }}
+                    className="
+                      text-sm text-[var(--color-text-muted)] bg-transparent
+                      hover:text-[var(--color-text-primary)]
+                      cursor-pointer outline-none
+                    "
+                    aria-label="Quadro"
+                  >
+                    {boards.map((board) => (
+                      <option key={board.id} value={board.id}>
+                        {board.name}
+                      </option>
+                    ))}
+                    <option value="__new__">+ Novo quadro...</option>
+                  </select>
+                  {currentBoard && (
+                    <button
+                      onClick={() => setBoardModal('edit')}
+                      className="
+                        p-1 rounded-md text-[var(--color-text-muted)]
+                        hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-secondary)]
+                        transition-colors duration-150
+                      "
+                      aria-label="Editar quadro"
+                      title="Editar quadro"
+                    >
+                      <Settings2 size={14} />
+                    </button>
+                  )}
+                </div>
                 <div className="flex items-center gap-3 text-sm">
                   <span className="flex items-center gap-1.5 text-[var(--color-text-muted)]">
                     <CheckCircle2 size={14} className="text-green-500" />
@@ -703,6 +1150,8 @@ export default function Board() {
 
             {/* Actions */}
             <div className="flex items-center gap-3">
+              <SyncIndicator />
+
               {/* View Toggle */}
               <div className="flex items-center bg-[var(--color-bg)] rounded-lg p-1 border border-[var(--color-border)]">
                 <button
@@ -735,55 +1184,78 @@ export default function Board() {
                 </button>
               </div>
 
-              {/* Filter by tag */}
-              <div className="flex items-center gap-2">
-                <Tag size={16} className="text-[var(--color-text-muted)]" />
-                <select
-                  value={filterTag}
-                  onChange={(e) => setFilterTag(e.target.value as TagId | 'all')}
-                  className="
-                    h-9 px-3 pr-8 rounded-md text-sm appearance-none
-                    border border-[var(--color-border)] bg-[var(--color-surface)]
-                    text-[var(--color-text-primary)]
-                    hover:border-[var(--color-border-hover)]
-                    focus:border-[var(--color-accent)] focus:ring-1 focus:ring-[var(--color-accent)]
-                    transition-colors duration-150
-                    cursor-pointer
-                  "
-                >
-                  <option value="all">Todas etiquetas</option>
-                  {TAGS.map((tag) => (
-                    <option key={tag.id} value={tag.id}>
-                      {tag.label}
-                    </option>
-                  ))}
-                </select>
-              </div>
+              {/* Manage columns */}
+              <button
+                onClick={() => setIsColumnsOpen(true)}
+                className="
+                  p-2 rounded-md text-[var(--color-text-muted)]
+                  hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-secondary)]
+                  transition-colors duration-150
+                "
+                aria-label="Colunas"
+                title="Colunas"
+              >
+                <Columns3 size={18} />
+              </button>
 
-              {/* Filter by assignee */}
-              <div className="flex items-center gap-2">
-                <Filter size={16} className="text-[var(--color-text-muted)]" />
-                <select
-                  value={filterAssignee}
-                  onChange={(e) => setFilterAssignee(e.target.value as Assignee | 'all')}
-                  className="
-                    h-9 px-3 pr-8 rounded-md text-sm appearance-none
-                    border border-[var(--color-border)] bg-[var(--color-surface)]
-                    text-[var(--color-text-primary)]
-                    hover:border-[var(--color-border-hover)]
-                    focus:border-[var(--color-accent)] focus:ring-1 focus:ring-[var(--color-accent)]
-                    transition-colors duration-150
-                    cursor-pointer
-                  "
-                >
-                  <option value="all">Todos</option>
-                  {ASSIGNEES.map((a) => (
-                    <option key={a.id} value={a.id}>
-                      {a.label}
-                    </option>
-                  ))}
-                </select>
-              </div>
+              {/* Manage tags */}
+              <button
+                onClick={() => setIsTagsOpen(true)}
+                className="
+                  p-2 rounded-md text-[var(--color-text-muted)]
+                  hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-secondary)]
+                  transition-colors duration-150
+                "
+                aria-label="Etiquetas"
+                title="Etiquetas"
+              >
+                <Tags size={18} />
+              </button>
+
+              {/* Notifications for the signed-in member */}
+              <NotificationBell onOpen={(notification) => openTaskById(notification.task_id)} />
+
+              {/* Board activity */}
+              <button
+                onClick={() => setIsActivityOpen(true)}
+                className="
+                  p-2 rounded-md text-[var(--color-text-muted)]
+                  hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-secondary)]
+                  transition-colors duration-150
+                "
+                aria-label="Atividade"
+                title="Atividade"
+              >
+                <History size={18} />
+              </button>
+
+              {/* Deleted tasks */}
+              <button
+                onClick={() => setIsTrashOpen(true)}
+                className="
+                  p-2 rounded-md text-[var(--color-text-muted)]
+                  hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-secondary)]
+                  transition-colors duration-150
+                "
+                aria-label="Lixo"
+                title="Lixo"
+              >
+                <Trash2 size={18} />
+              </button>
+
+              {/* Manage members */}
+              <button
+                onClick={() => setIsMembersOpen(true)}
+                className="
+                  p-2 rounded-md text-[var(--color-text-muted)]
+                  hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-secondary)]
+                  transition-colors duration-150
+                "
+                aria-label="Pessoas"
+                title="Pessoas"
+              >
+                <Users size={18} />
+              </button>
 
               {/* Dark mode toggle */}
               <button
@@ -799,6 +1271,25 @@ export default function Board() {
                 {theme === 'dark' ? <Sun size={18} /> : <Moon size={18} />}
               </button>
 
+              {/* Signed-in user and sign out */}
+              <div className="flex items-center gap-1">
+                <span className="hidden md:inline text-sm text-[var(--color-text-secondary)]">
+                  {currentUserName}
+                </span>
+                <button
+                  onClick={signOut}
+                  className="
+                    p-2 rounded-md text-[var(--color-text-muted)]
+                    hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-secondary)]
+                    transition-colors duration-150
+                  "
+                  aria-label="Terminar sessão"
+                  title="Terminar sessão"
+                >
+                  <LogOut size={18} />
+                </button>
+              </div>
+
               {/* Refresh button */}
               <button
                 onClick={fetchTasks}
@@ -828,6 +1319,9 @@ export default function Board() {
               </button>
             </div>
           </div>
+
+          {/* Search, filters and saved views */}
+          <FilterBar filter={filter} members={boardMembers} onChange={setFilter} />
         </div>
       </header>
 
@@ -841,8 +1335,10 @@ export default function Board() {
           /* Calendar View */
           <CalendarView
             tasks={filteredTasks}
+            columns={columns}
             onTaskClick={openEditTaskModal}
             onDayClick={handleCalendarDayClick}
+            onReschedule={handleReschedule}
           />
         ) : (
           /* Kanban Board View */
@@ -855,12 +1351,15 @@ export default function Board() {
             onDragEnd={handleDragEnd}
           >
             <div className="flex gap-6 overflow-x-auto pb-4">
-              {COLUMNS.map((column) => (
+              {columns.map((column) => (
                 <Column
                   key={column.id}
                   id={column.id}
                   title={column.title}
+                  color={column.color}
+                  isDone={column.is_done}
                   tasks={tasksByStatus[column.id]}
+                  getBlockers={getOpenBlockers}
                   onTaskClick={openEditTaskModal}
                   onTaskDelete={handleQuickDelete}
                   onAddTask={() => openNewTaskModal(column.id)}
@@ -875,6 +1374,7 @@ export default function Board() {
                 <TaskCard
                   task={activeTask}
                   onClick={() => {}}
+                  isDone={isDoneStatus(columns, activeTask.status)}
                   isDragging
                 />
               )}
@@ -888,10 +1388,72 @@ export default function Board() {
         task={editingTask}
         defaultStatus={defaultColumnForNewTask}
         defaultDueDate={defaultDueDate}
+        defaultAssignee={defaultAssignee}
+        columns={columns}
+        boards={boards}
+        boardMembers={boardMembers}
+        tasks={tasks}
+        dependencies={dependencies}
         isOpen={isModalOpen}
         onClose={closeModal}
         onSave={handleSaveTask}
         onDelete={handleDeleteTask}
+        onChecklistComplete={handleChecklistComplete}
+        onConvertChecklistItem={handleConvertChecklistItem}
+        onDependenciesChange={refreshDependencies}
+        onRevertField={handleRevertField}
+      />
+
+      {/* Columns Modal */}
+      <ColumnsModal
+        isOpen={isColumnsOpen}
+        boardId={currentBoardId}
+        columns={columns}
+        tasks={tasks}
+        onClose={() => setIsColumnsOpen(false)}
+        onChange={refreshColumns}
+      />
+
+      {/* Board Modal */}
+      <BoardModal
+        board={boardModal === 'edit' ? currentBoard ?? null : null}
+        isOpen={boardModal !== null}
+        onClose={() => setBoardModal(null)}
+        onSaved={async (board) => {
+          await refreshBoards()
+          handleBoardChange(board.id)
+        }}
+      />
+
+      {/* Tags Modal */}
+      <TagsModal
+        isOpen={isTagsOpen}
+        onClose={() => setIsTagsOpen(false)}
+      />
+
+      {/* Trash Modal */}
+      <TrashModal
+        isOpen={isTrashOpen}
+        onClose={() => setIsTrashOpen(false)}
+        boardId={currentBoardId}
+        columns={columns}
+        currentUserName={currentUserName}
+      />
+
+      {/* Activity Feed */}
+      <ActivityFeed
+        isOpen={isActivityOpen}
+        onClose={() => setIsActivityOpen(false)}
+        boardId={currentBoardId}
+        tasks={tasks}
+        columns={columns}
+        onOpenTask={openTaskFromActivity}
+      />
+
+      {/* Members Modal */}
+      <MembersModal
+        isOpen={isMembersOpen}
+        onClose={() => setIsMembersOpen(false)}
       />
     </div>
   )
@@ -0,0 +1,170 @@
+'use client'
+
+import { useState } from 'react'
+import { X, Check } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useMembers } from '@/lib/MembersContext'
+import { createBoard, updateBoard } from '@/lib/boards'
+import { KanbanBoard } from '@/lib/types'
+import Avatar from './Avatar'
+
+interface BoardModalProps {
+  board: KanbanBoard | null
+  isOpen: boolean
+  onClose: () => void
+  onSaved: (board: KanbanBoard) => void
+}
+
+function BoardForm({ board, onClose, onSaved }: Omit<BoardModalProps, 'isOpen'>) {
+  const { activeMembers, currentMember } = useMembers()
+  const [name, setName] = useState(board?.name || '')
+  const [memberIds, setMemberIds] = useState<string[]>(
+    board?.member_ids || (currentMember ? [currentMember.id] : [])
+  )
+  const [saving, setSaving] = useState(false)
+
+  const toggleMember = (id: string) => {
+    setMemberIds((prev) =>
+      prev.includes(id) ? prev.filter((m) => m !== id) : [...prev, id]
+    )
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    setSaving(true)
+    const input = { name: name.trim(), member_ids: memberIds }
+
+    if (board) {
+      const ok = await updateBoard(board.id, input)
+      setSaving(false)
+      if (!ok) {
+        toast.error('Erro ao atualizar quadro')
+        return
+      }
+      toast.success('Quadro atualizado!')
+      onSaved({ ...board, ...input })
+    } else {
+      const created = await createBoard(input)
+      setSaving(false)
+      if (!created) {
+        toast.error('Erro ao criar quadro')
+        return
+      }
+      toast.success('Quadro criado!')
+      onSaved(created)
+    }
+
+    onClose()
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col">
+      <div className="px-5 py-4 flex flex-col gap-4">
+        <div>
+          <label className="block text-[13px] font-medium text-[var(--color-text-secondary)] mb-1">
+            Nome
+          </label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Ex.: Casa, Trabalho, Viagem"
+            required
+            autoFocus
+            className="
+              w-full h-10 px-3 rounded-md text-sm
+              border border-[var(--color-border)] bg-[var(--color-surface)]
+              text-[var(--color-text-primary)]
+              placeholder:text-[var(--color-text-muted)]
+              focus:border-[var(--color-accent)] focus:ring-1 focus:ring-[var(--color-accent)]
+              transition-colors duration-150 outline-none
+            "
+          />
+        </div>
+
+        <div>
+          <label className="block text-[13px] font-medium text-[var(--color-text-secondary)] mb-1">
+            Pessoas
+          </label>
+          <div className="flex flex-col gap-1">
+            {activeMembers.map((member) => {
+              const selected = memberIds.includes(member.id)
+              return (
+                <button
+                  key={member.id}
+                  type="button"
+                  onClick={() => toggleMember(member.id)}
+                  className={`
+                    flex items-center gap-3 px-3 py-2 rounded-md text-sm text-left
+                    transition-colors duration-150
+                    ${selected
+                      ? 'bg-[var(--color-accent-light)] text-[var(--color-text-primary)]'
+                      : 'text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-secondary)]'
+                    }
+                  `}
+                >
+                  <Avatar member={member} size={24} />
+                  <span className="flex-1">{member.name}</span>
+                  {selected && <Check size={16} className="text-[var(--color-accent)]" />}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2 px-5 py-4 border-t border-[var(--color-border)] bg-[var(--color-bg)]">
+        <button
+          type="button"
+          onClick={onClose}
+          className="h-9 px-4 rounded-md text-sm font-medium text-[var(--color-text-secondary)] border border-[var(--color-border)] bg-[var(--color-surface)] hover:bg-[var(--color-bg-secondary)] transition-colors"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={!name.trim() || saving}
+          className="h-9 px-4 rounded-md text-sm font-medium text-white bg-[var(--color-accent)] hover:bg-[var(--color-accent-hover)] transition-colors"
+        >
+          {board ? 'Guardar' : 'Criar'}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default function BoardModal({ board, isOpen, onClose, onSaved }: BoardModalProps) {
+  if (!isOpen) return null
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        onClick={onClose}
+        className="fixed inset-0 z-[9998] bg-black/30 backdrop-blur-[2px]"
+      />
+
+      <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-[9999] w-[calc(100%-32px)] max-w-[420px] max-h-[calc(100vh-80px)] flex flex-col bg-[var(--color-surface)] rounded-2xl shadow-xl overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-[var(--color-border)]">
+          <h2 className="text-[17px] font-semibold text-[var(--color-text-primary)]">
+            {board ? 'Editar Quadro' : 'Novo Quadro'}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1.5 rounded-md text-[var(--color-text-muted)] hover:bg-[var(--color-bg-secondary)]"
+            aria-label="Fechar"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Form remounts per board so its fields start from that board */}
+        <BoardForm key={board?.id ?? 'new'} board={board} onClose={onClose} onSaved={onSaved} />
+      </div>
+    </>
+  )
+}
@@ -1,6 +1,17 @@
 'use client'
 
-import { useMemo, useState } from 'react'
+import { ReactNode, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  DndContext,
+  DragEndEvent,
+  DragOverlay,
+  DragStartEvent,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core'
 import {
   format,
   startOfMonth,
@@ -9,21 +20,37 @@ import {
   endOfWeek,
   eachDayOfInterval,
   isSameMonth,
-  isSameDay,
   isToday,
+  isTomorrow,
+  addDays,
+  addWeeks,
   addMonths,
-  subMonths,
 } from 'date-fns'
 import { pt } from 'date-fns/locale'
-import { ChevronLeft, ChevronRight, Calendar as CalendarIcon } from 'lucide-react'
-import { Task, TaskPriority } from '@/lib/types'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { Task, TaskPriority, BoardColumn } from '@/lib/types'
+import { isDoneStatus } from '@/lib/columns'
+import { Due, dueDayKey, dueMoment, formatDueTime, localTimeZone, parseDueDate } from '@/lib/dueDates'
 
 interface CalendarViewProps {
   tasks: Task[]
+  columns: BoardColumn[]
   onTaskClick: (task: Task) => void
   onDayClick: (date: Date) => void
+  onReschedule: (task: Task, due: Partial<Due>) => void
 }
 
+type CalendarMode = 'month' | 'week' | 'day' | 'agenda'
+
+const CALENDAR_MODES: { id: CalendarMode; label: string }[] = [
+  { id: 'month', label: 'Mês' },
+  { id: 'week', label: 'Semana' },
+  { id: 'day', label: 'Dia' },
+  { id: 'agenda', label: 'Agenda' },
+]
+
+const CALENDAR_MODE_KEY = 'kanban-calendar-view'
+
 // Priority colors for task pills
 const priorityColors: Record<TaskPriority, { bg: string; darkBg: string }> = {
   high: { bg: 'bg-red-500', darkBg: 'bg-red-600' },
@@ -31,94 +58,125 @@ const priorityColors: Record<TaskPriority, { bg: string; darkBg: string }> = {
   low: { bg: 'bg-green-500', darkBg: 'bg-green-600' },
 }
 
+const priorityOrder: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 }
+
 // Week days header
 const WEEKDAYS = ['Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb', 'Dom']
 
-export default function CalendarView({ tasks, onTaskClick, onDayClick }: CalendarViewProps) {
-  const [currentMonth, setCurrentMonth] = useState(new Date())
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+// Week and day views open scrolled to the start of the working day
+const FIRST_VISIBLE_HOUR = 8
+
+const navButtonClassName = `
+  p-2 rounded-md text-[var(--color-text-muted)]
+  hover:bg-[var(--color-bg)] hover:text-[var(--color-text-primary)]
+  transition-colors duration-150
+`
+
+// The view is only rendered on the client, after the board has loaded
+function loadCalendarMode(): CalendarMode {
+  const saved = localStorage.getItem(CALENDAR_MODE_KEY)
+  return CALENDAR_MODES.some((mode) => mode.id === saved) ? (saved as CalendarMode) : 'month'
+}
+
+// Timed tasks first, by time; then by priority (high -> medium -> low)
+function compareTasks(a: Task, b: Task): number {
+  if (a.due_time || b.due_time) {
+    if (!a.due_time) return 1
+    if (!b.due_time) return -1
+    return dueMoment(a)!.getTime() - dueMoment(b)!.getTime()
+  }
+  return priorityOrder[a.priority] - priorityOrder[b.priority]
+}
+
+function dayKey(day: Date): string {
+  return format(day, 'yyyy-MM-dd')
+}
+
+interface TaskPillProps {
+  task: Task
+  columns: BoardColumn[]
+  onClick: (task: Task) => void
+}
+
+function TaskPill({ task, columns, onClick }: TaskPillProps) {
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation()
+        onClick(task)
+      }}
+      className={`
+        w-full text-left px-2 py-1 rounded text-[11px] font-medium
+        text-white truncate
+        transition-opacity duration-150
+        hover:opacity-80
+        ${priorityColors[task.priority].bg}
+        ${isDoneStatus(columns, task.status) ? 'opacity-50 line-through' : ''}
+      `}
+      title={task.title}
+    >
+      {task.due_time && <span className="font-semibold">{formatDueTime(task)} </span>}
+      {task.title}
+    </button>
+  )
+}
+
+// Pills can be dragged to another day (or hour) to reschedule the task
+function DraggableTask({ task, children }: { task: Task; children: ReactNode }) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: task.id })
 
+  return (
+    <div ref={setNodeRef} {...attributes} {...listeners} className={isDragging ? 'opacity-30' : ''}>
+      {children}
+    </div>
+  )
+}
+
+interface DropCellProps {
+  id: string
+  // What a task dropped here gets as its due date (and time)
+  due: Partial<Due>
+  onClick: () => void
+  className: string
+  children: ReactNode
+}
+
+function DropCell({ id, due, onClick, className, children }: DropCellProps) {
+  const { setNodeRef, isOver } = useDroppable({ id, data: { due } })
+
+  return (
+    <div
+      ref={setNodeRef}
+      onClick={onClick}
+      className={`${className} ${isOver ? 'ring-2 ring-inset ring-[var(--color-accent)]' : ''}`}
+    >
+      {children}
+    </div>
+  )
+}
+
+interface GridProps {
+  tasksByDate: Map<string, Task[]>
+  columns: BoardColumn[]
+  onTaskClick: (task: Task) => void
+  onDayClick: (date: Date) => void
+}
+
+function MonthGrid({ cursor, tasksByDate, columns, onTaskClick, onDayClick }: GridProps & { cursor: Date }) {
   // Calculate calendar days
   const calendarDays = useMemo(() => {
-    const monthStart = startOfMonth(currentMonth)
-    const monthEnd = endOfMonth(currentMonth)
+    const monthStart = startOfMonth(cursor)
+    const monthEnd = endOfMonth(cursor)
     const calendarStart = startOfWeek(monthStart, { weekStartsOn: 1 }) // Monday start
     const calendarEnd = endOfWeek(monthEnd, { weekStartsOn: 1 })
 
     return eachDayOfInterval({ start: calendarStart, end: calendarEnd })
-  }, [currentMonth])
-
-  // Group tasks by date
-  const tasksByDate = useMemo(() => {
-    const map = new Map<string, Task[]>()
-    tasks.forEach((task) => {
-      if (task.due_date) {
-        const dateKey = task.due_date.split('T')[0]
-        const existing = map.get(dateKey) || []
-        existing.push(task)
-        map.set(dateKey, existing)
-      }
-    })
-    return map
-  }, [tasks])
-
-  const navigateToPreviousMonth = () => setCurrentMonth((prev) => subMonths(prev, 1))
-  const navigateToNextMonth = () => setCurrentMonth((prev) => addMonths(prev, 1))
-  const navigateToToday = () => setCurrentMonth(new Date())
-
-  const handleDayClick = (day: Date, dayTasks: Task[]) => {
-    if (dayTasks.length === 0) {
-      onDayClick(day)
-    }
-  }
+  }, [cursor])
 
   return (
-    <div className="bg-[var(--color-surface)] rounded-xl border border-[var(--color-border)] overflow-hidden">
-      {/* Calendar Header */}
-      <div className="p-4 border-b border-[var(--color-border)] bg-[var(--color-bg-secondary)]">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-4">
-            <h2 className="text-lg font-semibold text-[var(--color-text-primary)] capitalize">
-              {format(currentMonth, 'MMMM yyyy', { locale: pt })}
-            </h2>
-            <button
-              onClick={navigateToToday}
-              className="
-                px-3 py-1.5 text-sm font-medium rounded-md
-                text-[var(--color-text-secondary)]
-                hover:bg-[var(--color-bg)] hover:text-[var(--color-text-primary)]
-                transition-colors duration-150
-              "
-            >
-              Hoje
-            </button>
-          </div>
-          <div className="flex items-center gap-1">
-            <button
-              onClick={navigateToPreviousMonth}
-              className="
-                p-2 rounded-md text-[var(--color-text-muted)]
-                hover:bg-[var(--color-bg)] hover:text-[var(--color-text-primary)]
-                transition-colors duration-150
-              "
-              aria-label="Mês anterior"
-            >
-              <ChevronLeft size={20} />
-            </button>
-            <button
-              onClick={navigateToNextMonth}
-              className="
-                p-2 rounded-md text-[var(--color-text-muted)]
-                hover:bg-[var(--color-bg)] hover:text-[var(--color-text-primary)]
-                transition-colors duration-150
-              "
-              aria-label="Próximo mês"
-            >
-              <ChevronRight size={20} />
-            </button>
-          </div>
-        </div>
-      </div>
-
+    <>
       {/* Weekday Headers */}
       <div className="grid grid-cols-7 border-b border-[var(--color-border)]">
         {WEEKDAYS.map((day) => (
@@ -138,22 +196,17 @@ export default function CalendarView({ tasks, onTaskClick, onDayClick }: Calenda
       {/* Calendar Grid */}
       <div className="grid grid-cols-7">
         {calendarDays.map((day, index) => {
-          const dateKey = format(day, 'yyyy-MM-dd')
-          const dayTasks = tasksByDate.get(dateKey) || []
-          const isCurrentMonth = isSameMonth(day, currentMonth)
+          const sortedTasks = tasksByDate.get(dayKey(day)) || []
+          const isCurrentMonth = isSameMonth(day, cursor)
           const isDayToday = isToday(day)
-          const hasTasks = dayTasks.length > 0
-
-          // Sort tasks by priority (high -> medium -> low)
-          const sortedTasks = [...dayTasks].sort((a, b) => {
-            const priorityOrder = { high: 0, medium: 1, low: 2 }
-            return priorityOrder[a.priority] - priorityOrder[b.priority]
-          })
+          const hasTasks = sortedTasks.length > 0
 
           return (
-            <div
+            <DropCell
               key={index}
-              onClick={() => handleDayClick(day, dayTasks)}
+              id={`day:${dayKey(day)}`}
+              due={{ due_date: dayKey(day) }}
+              onClick={() => !hasTasks && onDayClick(day)}
               className={`
                 min-h-[100px] md:min-h-[120px] p-1.5 border-b border-r border-[var(--color-border)]
                 transition-colors duration-150
@@ -185,24 +238,9 @@ export default function CalendarView({ tasks, onTaskClick, onDayClick }: Calenda
               {/* Task Pills */}
               <div className="space-y-1 overflow-hidden">
                 {sortedTasks.slice(0, 3).map((task) => (
-                  <button
-                    key={task.id}
-                    onClick={(e) => {
-                      e.stopPropagation()
-                      onTaskClick(task)
-                    }}
-                    className={`
-                      w-full text-left px-2 py-1 rounded text-[11px] font-medium
-                      text-white truncate
-                      transition-opacity duration-150
-                      hover:opacity-80
-                      ${priorityColors[task.priority].bg}
-                      ${task.status === 'done' ? 'opacity-50 line-through' : ''}
-                    `}
-                    title={task.title}
-                  >
-                    {task.title}
-                  </button>
+                  <DraggableTask key={task.id} task={task}>
+                    <TaskPill task={task} columns={columns} onClick={onTaskClick} />
+                  </DraggableTask>
                 ))}
                 {sortedTasks.length > 3 && (
                   <button
@@ -223,10 +261,378 @@ export default function CalendarView({ tasks, onTaskClick, onDayClick }: Calenda
                   </button>
                 )}
               </div>
-            </div>
+            </DropCell>
           )
         })}
       </div>
+    </>
+  )
+}
+
+// Week and day layouts: untimed tasks in an all-day row, timed tasks in the slot of their hour
+function TimeGrid({ days, tasksByDate, columns, onTaskClick, onDayClick }: GridProps & { days: Date[] }) {
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const firstHourRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (scrollRef.current && firstHourRef.current) {
+      scrollRef.current.scrollTop = firstHourRef.current.offsetTop
+    }
+  }, [])
+
+  const gridTemplateColumns = `56px repeat(${days.length}, minmax(0, 1fr))`
+
+  const slotTasks = (day: Date, hour: number | null) =>
+    (tasksByDate.get(dayKey(day)) || []).filter((task) =>
+      hour === null ? !task.due_time : !!task.due_time && dueMoment(task)!.getHours() === hour
+    )
+
+  const renderCell = (day: Date, hour: number | null, index: number) => {
+    const cellTasks = slotTasks(day, hour)
+    const due: Partial<Due> =
+      hour === null
+        ? { due_date: dayKey(day), due_time: null, due_timezone: null }
+        : { due_date: dayKey(day), due_time: `${String(hour).padStart(2, '0')}:00`, due_timezone: localTimeZone() }
+
+    return (
+      <DropCell
+        key={index}
+        id={`slot:${dayKey(day)}:${hour ?? 'all-day'}`}
+        due={due}
+        onClick={() => cellTasks.length === 0 && onDayClick(day)}
+        className={`
+          min-h-12 p-1 space-y-1 border-l border-[var(--color-border)]
+          ${cellTasks.length === 0 ? 'cursor-pointer hover:bg-[var(--color-bg)]' : ''}
+          transition-colors duration-150
+        `}
+      >
+        {cellTasks.map((task) => (
+          <DraggableTask key={task.id} task={task}>
+            <TaskPill task={task} columns={columns} onClick={onTaskClick} />
+          </DraggableTask>
+        ))}
+      </DropCell>
+    )
+  }
+
+  return (
+    <>
+      {/* Day Headers */}
+      <div className="grid border-b border-[var(--color-border)] bg-[var(--color-bg-secondary)]" style={{ gridTemplateColumns }}>
+        <div />
+        {days.map((day) => (
+          <div key={dayKey(day)} className="flex flex-col items-center gap-0.5 py-2 border-l border-[var(--color-border)]">
+            <span className="text-xs font-semibold uppercase tracking-wide text-[var(--color-text-muted)]">
+              {format(day, 'EEE', { locale: pt })}
+            </span>
+            <span
+              className={`
+                inline-flex items-center justify-center w-7 h-7 text-sm font-medium rounded-full
+                ${isToday(day) ? 'bg-[var(--color-accent)] text-white' : 'text-[var(--color-text-primary)]'}
+              `}
+            >
+              {format(day, 'd')}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* All-day Row */}
+      <div className="grid border-b border-[var(--color-border)]" style={{ gridTemplateColumns }}>
+        <div className="px-2 py-1.5 text-[10px] text-right text-[var(--color-text-muted)]">Todo o dia</div>
+        {days.map((day, index) => renderCell(day, null, index))}
+      </div>
+
+      {/* Hour Slots */}
+      <div ref={scrollRef} className="relative max-h-[600px] overflow-auto">
+        {HOURS.map((hour) => (
+          <div
+            key={hour}
+            ref={hour === FIRST_VISIBLE_HOUR ? firstHourRef : undefined}
+            className="grid border-b border-[var(--color-border)] last:border-b-0"
+            style={{ gridTemplateColumns }}
+          >
+            <div className="px-2 py-1 text-[10px] text-right tabular-nums text-[var(--color-text-muted)]">
+              {String(hour).padStart(2, '0')}:00
+            </div>
+            {days.map((day, index) => renderCell(day, hour, index))}
+          </div>
+        ))}
+      </div>
+    </>
+  )
+}
+
+// Open tasks without a due date, to be dragged onto a day; dropping a task here clears its date
+function UnscheduledList({ tasks, columns, onTaskClick }: { tasks: Task[]; columns: BoardColumn[]; onTaskClick: (task: Task) => void }) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: 'unscheduled',
+    data: { due: { due_date: null, due_time: null, due_timezone: null } },
+  })
+
+  return (
+    <aside
+      ref={setNodeRef}
+      className={`
+        hidden lg:flex flex-col w-56 shrink-0 border-l border-[var(--color-border)]
+        ${isOver ? 'bg-[var(--color-accent-light)]' : 'bg-[var(--color-bg-secondary)]'}
+        transition-colors duration-150
+      `}
+    >
+      <div className="flex items-center justify-between px-3 py-3 border-b border-[var(--color-border)]">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-[var(--color-text-muted)]">Sem data</h3>
+        <span className="text-xs tabular-nums text-[var(--color-text-muted)]">{tasks.length}</span>
+      </div>
+      <div className="flex-1 max-h-[720px] overflow-auto p-2 space-y-1">
+        {tasks.map((task) => (
+          <DraggableTask key={task.id} task={task}>
+            <TaskPill task={task} columns={columns} onClick={onTaskClick} />
+          </DraggableTask>
+        ))}
+        {tasks.length === 0 && (
+          <p className="py-4 text-xs text-center text-[var(--color-text-muted)]">Todas as tarefas têm data</p>
+        )}
+      </div>
+    </aside>
+  )
+}
+
+function dayHeading(day: Date): string {
+  if (isToday(day)) return 'Hoje'
+  if (isTomorrow(day)) return 'Amanhã'
+  return format(day, "EEEE, d 'de' MMMM", { locale: pt })
+}
+
+// Upcoming tasks, from today on, grouped by day
+function AgendaList({ tasksByDate, columns, onTaskClick }: Omit<GridProps, 'onDayClick'>) {
+  const todayKey = dayKey(new Date())
+  const upcomingDays = [...tasksByDate.keys()].filter((key) => key >= todayKey).sort()
+
+  if (upcomingDays.length === 0) {
+    return <p className="py-12 text-sm text-center text-[var(--color-text-muted)]">Sem tarefas agendadas</p>
+  }
+
+  return (
+    <div className="divide-y divide-[var(--color-border)]">
+      {upcomingDays.map((key) => {
+        const day = parseDueDate(key)
+        return (
+          <section key={key} className="px-4 py-3">
+            <h3 className="mb-2 text-sm font-semibold text-[var(--color-text-primary)] first-letter:uppercase">
+              {dayHeading(day)}
+            </h3>
+            <div className="flex flex-col gap-1">
+              {tasksByDate.get(key)!.map((task) => {
+                const column = columns.find((c) => c.id === task.status)
+                const isDone = isDoneStatus(columns, task.status)
+                return (
+                  <button
+                    key={task.id}
+                    onClick={() => onTaskClick(task)}
+                    className="flex items-center gap-3 px-2 py-1.5 rounded-md text-left hover:bg-[var(--color-bg-secondary)] transition-colors duration-150"
+                  >
+                    <span className="w-12 shrink-0 text-xs tabular-nums text-[var(--color-text-muted)]">
+                      {formatDueTime(task) ?? 'Todo o dia'}
+                    </span>
+                    <span className={`w-2 h-2 shrink-0 rounded-full ${priorityColors[task.priority].bg}`} />
+                    <span
+                      className={`flex-1 min-w-0 truncate text-sm ${
+                        isDone ? 'line-through text-[var(--color-text-muted)]' : 'text-[var(--color-text-primary)]'
+                      }`}
+                    >
+                      {task.title}
+                    </span>
+                    {column && <span className="shrink-0 text-xs text-[var(--color-text-muted)]">{column.title}</span>}
+                  </button>
+                )
+              })}
+            </div>
+          </section>
+        )
+      })}
+    </div>
+  )
+}
+
+function periodTitle(mode: CalendarMode, cursor: Date): string {
+  switch (mode) {
+    case 'month':
+      return format(cursor, 'MMMM yyyy', { locale: pt })
+    case 'week': {
+      const start = startOfWeek(cursor, { weekStartsOn: 1 })
+      const end = endOfWeek(cursor, { weekStartsOn: 1 })
+      return isSameMonth(start, end)
+        ? `${format(start, 'd')} – ${format(end, 'd MMMM yyyy', { locale: pt })}`
+        : `${format(start, 'd MMM', { locale: pt })} – ${format(end, 'd MMM yyyy', { locale: pt })}`
+    }
+    case 'day':
+      return format(cursor, "EEEE, d 'de' MMMM yyyy", { locale: pt })
+    case 'agenda':
+      return 'Próximas tarefas'
+  }
+}
+
+// How far the arrows move in each view (the agenda always starts today)
+const STEPS: Record<Exclude<CalendarMode, 'agenda'>, { add: (date: Date, amount: number) => Date; previous: string; next: string }> = {
+  month: { add: addMonths, previous: 'Mês anterior', next: 'Próximo mês' },
+  week: { add: addWeeks, previous: 'Semana anterior', next: 'Próxima semana' },
+  day: { add: addDays, previous: 'Dia anterior', next: 'Próximo dia' },
+}
+
+export default function CalendarView({ tasks, columns, onTaskClick, onDayClick, onReschedule }: CalendarViewProps) {
+  const [mode, setMode] = useState<CalendarMode>(loadCalendarMode)
+  const [cursor, setCursor] = useState(new Date())
+  const [activeTask, setActiveTask] = useState<Task | null>(null)
+
+  // Same activation distance as the kanban, so a click still opens the task
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    })
+  )
+
+  const handleModeChange = (next: CalendarMode) => {
+    setMode(next)
+    localStorage.setItem(CALENDAR_MODE_KEY, next)
+  }
+
+  // Group tasks by date, each day already in display order
+  const tasksByDate = useMemo(() => {
+    const map = new Map<string, Task[]>()
+    tasks.forEach((task) => {
+      // Timed tasks go on the local day they fall on
+      const dateKey = dueDayKey(task)
+      if (dateKey) {
+        const existing = map.get(dateKey) || []
+        existing.push(task)
+        map.set(dateKey, existing)
+      }
+    })
+    map.forEach((dayTasks) => dayTasks.sort(compareTasks))
+    return map
+  }, [tasks])
+
+  const weekDays = useMemo(
+    () =>
+      eachDayOfInterval({
+        start: startOfWeek(cursor, { weekStartsOn: 1 }),
+        end: endOfWeek(cursor, { weekStartsOn: 1 }),
+      }),
+    [cursor]
+  )
+
+  const unscheduledTasks = useMemo(
+    () =>
+      tasks
+        .filter((task) => !task.due_date && !isDoneStatus(columns, task.status))
+        .sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority]),
+    [tasks, columns]
+  )
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveTask(tasks.find((t) => t.id === event.active.id) || null)
+  }
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    setActiveTask(null)
+    const task = tasks.find((t) => t.id === event.active.id)
+    const due = event.over?.data.current?.due as Partial<Due> | undefined
+    if (!task || !due) return
+
+    // Moving a timed task to another hour keeps its minutes
+    const taskMoment = dueMoment(task)
+    const change =
+      due.due_time && task.due_time && taskMoment
+        ? { ...due, due_time: `${due.due_time.slice(0, 3)}${format(taskMoment, 'mm')}` }
+        : due
+
+    // Dropped back where it was
+    const next = { ...task, ...change }
+    if (!!next.due_time === !!task.due_time && dueMoment(next)?.getTime() === taskMoment?.getTime()) return
+
+    onReschedule(task, change)
+  }
+
+  const step = mode === 'agenda' ? null : STEPS[mode]
+  const gridProps = { tasksByDate, columns, onTaskClick, onDayClick }
+
+  return (
+    <div className="bg-[var(--color-surface)] rounded-xl border border-[var(--color-border)] overflow-hidden">
+      {/* Calendar Header */}
+      <div className="p-4 border-b border-[var(--color-border)] bg-[var(--color-bg-secondary)]">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-4">
+            <h2 className="text-lg font-semibold text-[var(--color-text-primary)] first-letter:uppercase">
+              {periodTitle(mode, cursor)}
+            </h2>
+            {step && (
+              <button
+                onClick={() => setCursor(new Date())}
+                className="
+                  px-3 py-1.5 text-sm font-medium rounded-md
+                  text-[var(--color-text-secondary)]
+                  hover:bg-[var(--color-bg)] hover:text-[var(--color-text-primary)]
+                  transition-colors duration-150
+                "
+              >
+                Hoje
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            {/* Sub-view Toggle */}
+            <div className="flex items-center bg-[var(--color-bg)] rounded-lg p-1 border border-[var(--color-border)]">
+              {CALENDAR_MODES.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => handleModeChange(id)}
+                  className={`
+                    px-2.5 py-1 rounded-md text-xs font-medium
+                    transition-all duration-150
+                    ${mode === id
+                      ? 'bg-[var(--color-accent)] text-white shadow-sm'
+                      : 'text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)]'
+                    }
+                  `}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {step && (
+              <div className="flex items-center gap-1">
+                <button onClick={() => setCursor((prev) => step.add(prev, -1))} className={navButtonClassName} aria-label={step.previous}>
+                  <ChevronLeft size={20} />
+                </button>
+                <button onClick={() => setCursor((prev) => step.add(prev, 1))} className={navButtonClassName} aria-label={step.next}>
+                  <ChevronRight size={20} />
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {mode === 'agenda' ? (
+        <AgendaList {...gridProps} />
+      ) : (
+        <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd} onDragCancel={() => setActiveTask(null)}>
+          <div className="flex">
+            <div className="flex-1 min-w-0">
+              {mode === 'month' && <MonthGrid cursor={cursor} {...gridProps} />}
+              {mode === 'week' && <TimeGrid days={weekDays} {...gridProps} />}
+              {mode === 'day' && <TimeGrid days={[cursor]} {...gridProps} />}
+            </div>
+            <UnscheduledList tasks={unscheduledTasks} columns={columns} onTaskClick={onTaskClick} />
+          </div>
+
+          <DragOverlay>
+            {activeTask && <TaskPill task={activeTask} columns={columns} onClick={onTaskClick} />}
+          </DragOverlay>
+        </DndContext>
+      )}
 
       {/* Legend */}
       <div className="p-3 border-t border-[var(--color-border)] bg-[var(--color-bg-secondary)]">
@@ -0,0 +1,206 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ChevronUp, ChevronDown, Trash2, ArrowUpRight, ListChecks } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useAuth } from '@/lib/AuthContext'
+import { logActivity } from '@/lib/activity'
+import {
+  fetchChecklist,
+  addChecklistItem,
+  updateChecklistItem,
+  deleteChecklistItem,
+  reorderChecklist,
+  setChecklistAutoComplete,
+} from '@/lib/checklist'
+import { ChecklistItem, Task } from '@/lib/types'
+
+interface ChecklistSectionProps {
+  task: Task
+  onAllDone: () => void
+  onConvertToTask: (title: string) => Promise<boolean>
+}
+
+const iconButtonClassName = `
+  p-1 rounded text-[var(--color-text-muted)]
+  hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-secondary)]
+  transition-colors duration-150
+`
+
+export default function ChecklistSection({ task, onAllDone, onConvertToTask }: ChecklistSectionProps) {
+  const { user } = useAuth()
+  const userName = user?.name ?? 'Anónimo'
+  const [items, setItems] = useState<ChecklistItem[]>([])
+  const [newTitle, setNewTitle] = useState('')
+  const [autoComplete, setAutoComplete] = useState(task.checklist_auto_complete)
+
+  useEffect(() => {
+    fetchChecklist(task.id).then(setItems)
+  }, [task.id])
+
+  const doneCount = items.filter((item) => item.done).length
+
+  const handleAdd = async (e: React.FormEvent | React.KeyboardEvent) => {
+    e.preventDefault()
+    if (!newTitle.trim()) return
+
+    const position = items.length > 0 ? Math.max(...items.map((i) => i.position)) + 1 : 0
+    const item = await addChecklistItem(task.id, newTitle.trim(), position)
+    if (!item) {
+      toast.error('Erro ao adicionar item')
+      return
+    }
+    setItems((prev) => [...prev, item])
+    setNewTitle('')
+  }
+
+  const handleToggle = async (item: ChecklistItem) => {
+    const done = !item.done
+    const nextItems = items.map((i) => (i.id === item.id ? { ...i, done } : i))
+    setItems(nextItems)
+
+    const ok = await updateChecklistItem(item.id, { done })
+    if (!ok) {
+      setItems(items)
+      toast.error('Erro ao atualizar item')
+      return
+    }
+
+    await logActivity(task.id, 'checked', userName, { item: item.title, done })
+
+    if (done && autoComplete && nextItems.every((i) => i.done)) {
+      onAllDone()
+    }
+  }
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= items.length) return
+
+    const reordered = [...items]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    setItems(reordered.map((item, position) => ({ ...item, position })))
+
+    const ok = await reorderChecklist(reordered.map((i) => i.id))
+    if (!ok) {
+      toast.error('Erro ao reordenar itens')
+    }
+  }
+
+  const handleDelete = async (item: ChecklistItem) => {
+    const ok = await deleteChecklistItem(item.id)
+    if (!ok) {
+      toast.error('Erro ao eliminar item')
+      return
+    }
+    setItems((prev) => prev.filter((i) => i.id !== item.id))
+  }
+
+  // Promote an item to its own task, then drop it from this checklist
+  const handleConvert = async (item: ChecklistItem) => {
+    const created = await onConvertToTask(item.title)
+    if (!created) return
+
+    await deleteChecklistItem(item.id)
+    setItems((prev) => prev.filter((i) => i.id !== item.id))
+  }
+
+  const handleAutoCompleteChange = async (enabled: boolean) => {
+    setAutoComplete(enabled)
+    const ok = await setChecklistAutoComplete(task.id, enabled)
+    if (!ok) {
+      setAutoComplete(!enabled)
+      toast.error('Erro ao guardar opção')
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="flex items-center gap-1 text-[13px] font-medium text-[var(--color-text-secondary)]">
+          <ListChecks size={14} />
+          Lista de verificação
+        </label>
+        {items.length > 0 && (
+          <span className="text-xs text-[var(--color-text-muted)] tabular-nums">
+            {doneCount}/{items.length}
+          </span>
+        )}
+      </div>
+
+      {/* Progress bar */}
+      {items.length > 0 && (
+        <div className="h-1 rounded-full bg-[var(--color-bg-secondary)] mb-2 overflow-hidden">
+          <div
+            className="h-full bg-green-500 transition-all duration-300"
+            style={{ width: `${(doneCount / items.length) * 100}%` }}
+          />
+        </div>
+      )}
+
+      <div className="flex flex-col gap-1">
+        {items.map((item, index) => (
+          <div key={item.id} className="group flex items-center gap-2 py-0.5">
+            <input
+              type="checkbox"
+              checked={item.done}
+              onChange={() => handleToggle(item)}
+              className="cursor-pointer"
+            />
+            <span
+              className={`
+                flex-1 text-sm
+                ${item.done ? 'line-through text-[var(--color-text-muted)]' : 'text-[var(--color-text-primary)]'}
+              `}
+            >
+              {item.title}
+            </span>
+            <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+              <button type="button" onClick={() => handleMove(index, -1)} disabled={index === 0} className={iconButtonClassName} aria-label="Mover para cima">
+                <ChevronUp size={14} />
+              </button>
+              <button type="button" onClick={() => handleMove(index, 1)} disabled={index === items.length - 1} className={iconButtonClassName} aria-label="Mover para baixo">
+                <ChevronDown size={14} />
+              </button>
+              <button type="button" onClick={() => handleConvert(item)} className={iconButtonClassName} title="Converter em tarefa">
+                <ArrowUpRight size={14} />
+              </button>
+              <button type="button" onClick={() => handleDelete(item)} className={`${iconButtonClassName} hover:text-red-500`} title="Eliminar item">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Add item - Enter submits without submitting the task form */}
+      <input
+        type="text"
+        value={newTitle}
+        onChange={(e) => setNewTitle(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleAdd(e)}
+        placeholder="+ Adicionar item..."
+        className="
+          w-full h-9 mt-1 px-2 text-sm rounded-md
+          bg-transparent border border-transparent
+          text-[var(--color-text-primary)]
+          placeholder:text-[var(--color-text-muted)]
+          hover:border-[var(--color-border)]
+          focus:border-[var(--color-accent)] focus:ring-1 focus:ring-[var(--color-accent)]
+          transition-colors duration-150 outline-none
+        "
+      />
+
+      {items.length > 0 && (
+        <label className="flex items-center gap-2 mt-1 text-xs text-[var(--color-text-muted)] cursor-pointer">
+          <input
+            type="checkbox"
+            checked={autoComplete}
+            onChange={(e) => handleAutoCompleteChange(e.target.checked)}
+          />
+          Concluir a tarefa ao marcar o último item
+        </label>
+      )}
+    </div>
+  )
+}
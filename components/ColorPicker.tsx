@@ -0,0 +1,28 @@
+'use client'
+
+import { ColorId, COLORS } from '@/lib/types'
+
+interface ColorPickerProps {
+  value: ColorId
+  onChange: (color: ColorId) => void
+}
+
+export default function ColorPicker({ value, onChange }: ColorPickerProps) {
+  return (
+    <div className="flex items-center gap-1">
+      {COLORS.map((color) => (
+        <button
+          key={color.id}
+          type="button"
+          onClick={() => onChange(color.id)}
+          className={`
+            w-4 h-4 rounded-full ${color.swatch}
+            ${value === color.id ? 'ring-2 ring-offset-1 ring-[var(--color-accent)]' : ''}
+          `}
+          aria-label={color.label}
+          title={color.label}
+        />
+      ))}
+    </div>
+  )
+}
@@ -4,30 +4,29 @@ import { useState, useRef, KeyboardEvent } from 'react'
 import { useDroppable } from '@dnd-kit/core'
 import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable'
 import { Plus } from 'lucide-react'
-import { Task, TaskStatus } from '@/lib/types'
+import { Task, TaskStatus, ColorId, getColor } from '@/lib/types'
 import TaskCard from './TaskCard'
 
 interface ColumnProps {
   id: TaskStatus
   title: string
+  color: ColorId
+  isDone: boolean
   tasks: Task[]
+  getBlockers?: (taskId: string) => Task[]
   onTaskClick: (task: Task) => void
   onTaskDelete?: (id: string) => void
   onAddTask: () => void
   onQuickAdd: (title: string) => void
 }
 
-// Column header accent colors - subtle indicator for each column
-const columnAccents: Record<TaskStatus, string> = {
-  todo: 'bg-slate-400',
-  in_progress: 'bg-[var(--color-accent)]',
-  done: 'bg-green-500',
-}
-
 export default function Column({
   id,
   title,
+  color,
+  isDone,
   tasks,
+  getBlockers,
   onTaskClick,
   onTaskDelete,
   onAddTask,
@@ -55,8 +54,8 @@ export default function Column({
       {/* Column header */}
       <div className="flex items-center justify-between mb-3 px-1">
         <div className="flex items-center gap-3">
-          {/* Status indicator dot */}
-          <div className={`w-2.5 h-2.5 rounded-full ${columnAccents[id]}`} />
+          {/* Status indicator dot - subtle accent in the column's color */}
+          <div className={`w-2.5 h-2.5 rounded-full ${getColor(color).swatch}`} />
           <h2 className="text-[15px] font-semibold text-[var(--color-text-primary)]">
             {title}
           </h2>
@@ -117,6 +116,8 @@ export default function Column({
                 task={task}
                 onClick={() => onTaskClick(task)}
                 onDelete={onTaskDelete}
+                isDone={isDone}
+                blockedBy={isDone ? [] : getBlockers?.(task.id)}
               />
             ))}
           </div>
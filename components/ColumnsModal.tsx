@@ -0,0 +1,278 @@
+'use client'
+
+import { useState } from 'react'
+import { X, Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { createColumn, updateColumn, reorderColumns, deleteColumn } from '@/lib/columns'
+import { BoardColumn, ColorId, Task } from '@/lib/types'
+import ColorPicker from './ColorPicker'
+
+interface ColumnsModalProps {
+  isOpen: boolean
+  boardId: string | null
+  columns: BoardColumn[]
+  tasks: Task[]
+  onClose: () => void
+  onChange: () => void
+}
+
+const inputClassName = `
+  w-full h-9 px-3 rounded-md text-sm
+  border border-[var(--color-border)] bg-[var(--color-surface)]
+  text-[var(--color-text-primary)]
+  placeholder:text-[var(--color-text-muted)]
+  focus:border-[var(--color-accent)] focus:ring-1 focus:ring-[var(--color-accent)]
+  transition-colors duration-150 outline-none
+`
+
+const iconButtonClassName = `
+  p-1.5 rounded-md text-[var(--color-text-muted)]
+  hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-secondary)]
+  transition-colors duration-150
+`
+
+interface ColumnRowProps {
+  column: BoardColumn
+  columns: BoardColumn[]
+  taskCount: number
+  index: number
+  onChange: () => void
+  onMove: (index: number, direction: -1 | 1) => void
+}
+
+function ColumnRow({ column, columns, taskCount, index, onChange, onMove }: ColumnRowProps) {
+  const [title, setTitle] = useState(column.title)
+  const [deleting, setDeleting] = useState(false)
+  const [moveTasksTo, setMoveTasksTo] = useState('')
+
+  const otherColumns = columns.filter((c) => c.id !== column.id)
+
+  const save = async (updates: Parameters<typeof updateColumn>[1]) => {
+    const ok = await updateColumn(column.id, updates)
+    if (!ok) {
+      toast.error('Erro ao atualizar coluna')
+      return
+    }
+    onChange()
+  }
+
+  const saveTitle = () => {
+    const trimmed = title.trim()
+    if (!trimmed) {
+      setTitle(column.title)
+      return
+    }
+    if (trimmed !== column.title) {
+      save({ title: trimmed })
+    }
+  }
+
+  const confirmDelete = async () => {
+    const target = moveTasksTo || otherColumns[0]?.id
+    if (!target) return
+
+    const ok = await deleteColumn(column.id, target)
+    if (!ok) {
+      toast.error('Erro ao eliminar coluna')
+      return
+    }
+    toast.success('Coluna eliminada!')
+    onChange()
+  }
+
+  return (
+    <div className="flex flex-col gap-2 p-3 rounded-lg border border-[var(--color-border)]">
+      <div className="flex items-center gap-2">
+        <div className="flex flex-col">
+          <button
+            type="button"
+            onClick={() => onMove(index, -1)}
+            disabled={index === 0}
+            className={iconButtonClassName}
+            aria-label="Mover para a esquerda"
+          >
+            <ChevronUp size={14} />
+          </button>
+          <button
+            type="button"
+            onClick={() => onMove(index, 1)}
+            disabled={index === columns.length - 1}
+            className={iconButtonClassName}
+            aria-label="Mover para a direita"
+          >
+            <ChevronDown size={14} />
+          </button>
+        </div>
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={saveTitle}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          className={inputClassName}
+          aria-label="Nome da coluna"
+        />
+        <span className="text-sm text-[var(--color-text-muted)] tabular-nums">{taskCount}</span>
+        <button
+          type="button"
+          onClick={() => setDeleting(!deleting)}
+          disabled={columns.length <= 1}
+          className="p-1.5 rounded-md text-[var(--color-text-muted)] hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-950/50 transition-colors"
+          title="Eliminar coluna"
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-3 pl-8">
+        <ColorPicker value={column.color} onChange={(color) => save({ color })} />
+        <label className="flex items-center gap-2 text-sm text-[var(--color-text-secondary)] cursor-pointer">
+          <input
+            type="checkbox"
+            checked={column.is_done}
+            onChange={(e) => save({ is_done: e.target.checked })}
+          />
+          Coluna de conclusão
+        </label>
+      </div>
+
+      {/* Tasks must go somewhere before the column is removed */}
+      {deleting && (
+        <div className="flex items-center gap-2 pt-2 border-t border-[var(--color-border)]">
+          {taskCount > 0 && (
+            <>
+              <span className="text-sm text-[var(--color-text-secondary)] whitespace-nowrap">
+                Mover tarefas para
+              </span>
+              <select
+                value={moveTasksTo || otherColumns[0]?.id}
+                onChange={(e) => setMoveTasksTo(e.target.value)}
+                className={`${inputClassName} cursor-pointer`}
+              >
+                {otherColumns.map((c) => (
+                  <option key={c.id} value={c.id}>{c.title}</option>
+                ))}
+              </select>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={confirmDelete}
+            className="ml-auto h-9 px-3 rounded-md text-sm font-medium text-white bg-red-600 hover:bg-red-700 transition-colors whitespace-nowrap"
+          >
+            Eliminar
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function ColumnsModal({ isOpen, boardId, columns, tasks, onClose, onChange }: ColumnsModalProps) {
+  const [newTitle, setNewTitle] = useState('')
+  const [newColor, setNewColor] = useState<ColorId>('slate')
+
+  if (!isOpen) return null
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= columns.length) return
+
+    const ordered = columns.map((c) => c.id)
+    ;[ordered[index], ordered[target]] = [ordered[target], ordered[index]]
+
+    const ok = await reorderColumns(ordered)
+    if (!ok) {
+      toast.error('Erro ao reordenar colunas')
+    }
+    onChange()
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newTitle.trim() || !boardId) return
+
+    const position = columns.length > 0
+      ? Math.max(...columns.map((c) => c.position)) + 1
+      : 0
+    const column = await createColumn(boardId, { title: newTitle.trim(), color: newColor }, position)
+    if (!column) {
+      toast.error('Erro ao criar coluna')
+      return
+    }
+
+    setNewTitle('')
+    onChange()
+    toast.success('Coluna criada!')
+  }
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        onClick={onClose}
+        className="fixed inset-0 z-[9998] bg-black/30 backdrop-blur-[2px]"
+      />
+
+      <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-[9999] w-[calc(100%-32px)] max-w-[480px] max-h-[calc(100vh-80px)] flex flex-col bg-[var(--color-surface)] rounded-2xl shadow-xl overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-[var(--color-border)]">
+          <h2 className="text-[17px] font-semibold text-[var(--color-text-primary)]">Colunas</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1.5 rounded-md text-[var(--color-text-muted)] hover:bg-[var(--color-bg-secondary)]"
+            aria-label="Fechar"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto px-5 py-4 flex flex-col gap-3">
+          {columns.map((column, index) => (
+            <ColumnRow
+              key={column.id}
+              column={column}
+              columns={columns}
+              taskCount={tasks.filter((t) => t.status === column.id).length}
+              index={index}
+              onChange={onChange}
+              onMove={handleMove}
+            />
+          ))}
+          {!columns.some((c) => c.is_done) && (
+            <p className="text-sm text-amber-700">
+              Nenhuma coluna está marcada como conclusão: as tarefas nunca ficam concluídas.
+            </p>
+          )}
+        </div>
+
+        {/* Add column */}
+        <form
+          onSubmit={handleAdd}
+          className="flex flex-col gap-2 px-5 py-4 border-t border-[var(--color-border)] bg-[var(--color-bg)]"
+        >
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              placeholder="Nova coluna, ex.: Em revisão"
+              className={inputClassName}
+            />
+            <button
+              type="submit"
+              disabled={!newTitle.trim()}
+              className="flex items-center gap-2 h-9 px-4 rounded-md text-sm font-medium text-white bg-[var(--color-accent)] hover:bg-[var(--color-accent-hover)] transition-colors whitespace-nowrap"
+            >
+              <Plus size={16} />
+              Adicionar
+            </button>
+          </div>
+          <ColorPicker value={newColor} onChange={setNewColor} />
+        </form>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,123 @@
+'use client'
+
+import { Lock, X, Check } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { addDependency, removeDependency, wouldCreateCycle } from '@/lib/dependencies'
+import { isDoneStatus } from '@/lib/columns'
+import { BoardColumn, Task, TaskDependency } from '@/lib/types'
+
+interface DependenciesSectionProps {
+  task: Task
+  tasks: Task[]
+  dependencies: TaskDependency[]
+  columns: BoardColumn[]
+  onChange: () => void
+}
+
+export default function DependenciesSection({
+  task,
+  tasks,
+  dependencies,
+  columns,
+  onChange,
+}: DependenciesSectionProps) {
+  const blockerIds = dependencies.filter((d) => d.task_id === task.id).map((d) => d.blocked_by_id)
+  const blockedIds = dependencies.filter((d) => d.blocked_by_id === task.id).map((d) => d.task_id)
+  const blockers = tasks.filter((t) => blockerIds.includes(t.id))
+  const blocks = tasks.filter((t) => blockedIds.includes(t.id))
+
+  // Anything that would not close a loop can become a blocker
+  const candidates = tasks.filter(
+    (t) =>
+      t.id !== task.id &&
+      !blockerIds.includes(t.id) &&
+      !wouldCreateCycle(dependencies, task.id, t.id)
+  )
+
+  const handleAdd = async (blockedById: string) => {
+    if (!blockedById) return
+
+    const { error } = await addDependency(task.id, blockedById)
+    if (error) {
+      toast.error(error)
+      return
+    }
+    onChange()
+  }
+
+  const handleRemove = async (blockedById: string) => {
+    const ok = await removeDependency(task.id, blockedById)
+    if (!ok) {
+      toast.error('Erro ao remover dependência')
+      return
+    }
+    onChange()
+  }
+
+  return (
+    <div>
+      <label className="flex items-center gap-1 mb-1 text-[13px] font-medium text-[var(--color-text-secondary)]">
+        <Lock size={14} />
+        Bloqueada por
+      </label>
+
+      <div className="flex flex-col gap-1">
+        {blockers.map((blocker) => {
+          const done = isDoneStatus(columns, blocker.status)
+          return (
+            <div key={blocker.id} className="group flex items-center gap-2 py-0.5">
+              {done ? (
+                <Check size={14} className="text-green-500 flex-shrink-0" />
+              ) : (
+                <Lock size={14} className="text-amber-500 flex-shrink-0" />
+              )}
+              <span
+                className={`
+                  flex-1 truncate text-sm
+                  ${done ? 'line-through text-[var(--color-text-muted)]' : 'text-[var(--color-text-primary)]'}
+                `}
+              >
+                {blocker.title}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleRemove(blocker.id)}
+                className="p-1 rounded text-[var(--color-text-muted)] opacity-0 group-hover:opacity-100 hover:bg-[var(--color-bg-secondary)] hover:text-red-500 transition-opacity"
+                title="Remover dependência"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          )
+        })}
+      </div>
+
+      {candidates.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => handleAdd(e.target.value)}
+          className="
+            w-full h-9 mt-1 px-2 text-sm rounded-md cursor-pointer
+            bg-transparent border border-transparent
+            text-[var(--color-text-muted)]
+            hover:border-[var(--color-border)]
+            focus:border-[var(--color-accent)] focus:ring-1 focus:ring-[var(--color-accent)]
+            transition-colors duration-150 outline-none
+          "
+          aria-label="Adicionar tarefa que bloqueia"
+        >
+          <option value="">+ Adicionar tarefa que bloqueia...</option>
+          {candidates.map((t) => (
+            <option key={t.id} value={t.id}>{t.title}</option>
+          ))}
+        </select>
+      )}
+
+      {blocks.length > 0 && (
+        <p className="mt-1 text-xs text-[var(--color-text-muted)]">
+          Bloqueia: {blocks.map((t) => t.title).join(', ')}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,302 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Search, SlidersHorizontal, Bookmark, X, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useTags } from '@/lib/TagsContext'
+import { DUE_FILTERS, EMPTY_FILTER, countActiveFilters } from '@/lib/filters'
+import { fetchSavedViews, createSavedView, deleteSavedView } from '@/lib/savedViews'
+import { DueFilter, Member, SavedView, TaskFilter, PRIORITIES, RECURRENCE_FREQUENCIES, getColor } from '@/lib/types'
+import Avatar from './Avatar'
+
+interface FilterBarProps {
+  filter: TaskFilter
+  members: Member[]
+  onChange: (filter: TaskFilter) => void
+}
+
+type OpenMenu = 'filters' | 'views' | null
+
+const inputClassName = `
+  h-9 px-3 rounded-md text-sm
+  border border-[var(--color-border)] bg-[var(--color-surface)]
+  text-[var(--color-text-primary)]
+  placeholder:text-[var(--color-text-muted)]
+  focus:border-[var(--color-accent)] focus:ring-1 focus:ring-[var(--color-accent)]
+  transition-colors duration-150 outline-none
+`
+
+const menuButtonClassName = `
+  relative flex items-center gap-2 h-9 px-3 rounded-md text-sm font-medium
+  border border-[var(--color-border)] bg-[var(--color-surface)]
+  text-[var(--color-text-secondary)]
+  hover:border-[var(--color-border-hover)] hover:text-[var(--color-text-primary)]
+  transition-colors duration-150
+`
+
+function chipClassName(selected: boolean) {
+  return `
+    flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium border
+    transition-colors duration-150
+    ${selected
+      ? 'border-[var(--color-accent)] bg-[var(--color-accent-light)] text-[var(--color-accent)]'
+      : 'border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-secondary)]'}
+  `
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value]
+}
+
+function FilterGroup({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <p className="text-[11px] font-semibold uppercase tracking-wide text-[var(--color-text-muted)] mb-1.5">
+        {label}
+      </p>
+      <div className="flex flex-wrap gap-1.5">{children}</div>
+    </div>
+  )
+}
+
+export default function FilterBar({ filter, members, onChange }: FilterBarProps) {
+  const { tags } = useTags()
+  const [openMenu, setOpenMenu] = useState<OpenMenu>(null)
+  const [views, setViews] = useState<SavedView[]>([])
+  const [viewName, setViewName] = useState('')
+
+  useEffect(() => {
+    fetchSavedViews().then(setViews)
+  }, [])
+
+  const activeCount = countActiveFilters(filter)
+  const update = (changes: Partial<TaskFilter>) => onChange({ ...filter, ...changes })
+
+  const handleSaveView = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!viewName.trim()) return
+
+    const view = await createSavedView(viewName.trim(), filter)
+    if (!view) {
+      toast.error('Erro ao guardar vista')
+      return
+    }
+    setViews((prev) => [...prev, view].sort((a, b) => a.name.localeCompare(b.name)))
+    setViewName('')
+    toast.success('Vista guardada!')
+  }
+
+  const handleDeleteView = async (view: SavedView) => {
+    const ok = await deleteSavedView(view.id)
+    if (!ok) {
+      toast.error('Erro ao eliminar vista')
+      return
+    }
+    setViews((prev) => prev.filter((v) => v.id !== view.id))
+  }
+
+  const applyView = (view: SavedView) => {
+    onChange(view.filter)
+    setOpenMenu(null)
+  }
+
+  return (
+    <div className="flex items-center gap-2 mt-3">
+      {/* Search over title and description */}
+      <div className="relative flex-1 max-w-xs">
+        <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--color-text-muted)]" />
+        <input
+          type="search"
+          value={filter.search}
+          onChange={(e) => update({ search: e.target.value })}
+          placeholder="Pesquisar tarefas..."
+          className={`${inputClassName} w-full pl-9`}
+          aria-label="Pesquisar tarefas"
+        />
+      </div>
+
+      {/* Closes whichever menu is open */}
+      {openMenu && <div className="fixed inset-0 z-40" onClick={() => setOpenMenu(null)} />}
+
+      {/* Filters */}
+      <div className="relative">
+        <button
+          type="button"
+          onClick={() => setOpenMenu(openMenu === 'filters' ? null : 'filters')}
+          className={menuButtonClassName}
+        >
+          <SlidersHorizontal size={16} />
+          Filtros
+          {activeCount > 0 && (
+            <span className="min-w-[18px] h-[18px] px-1 rounded-full text-[11px] leading-[18px] text-white bg-[var(--color-accent)] tabular-nums">
+              {activeCount}
+            </span>
+          )}
+        </button>
+
+        {openMenu === 'filters' && (
+          <div className="absolute left-0 top-11 z-50 w-[340px] flex flex-col gap-4 p-4 rounded-xl border border-[var(--color-border)] bg-[var(--color-surface)] shadow-xl">
+            <FilterGroup label="Pessoas">
+              {members.map((member) => (
+                <button
+                  key={member.id}
+                  type="button"
+                  onClick={() => update({ assignees: toggle(filter.assignees, member.id) })}
+                  className={chipClassName(filter.assignees.includes(member.id))}
+                >
+                  <Avatar member={member} size={16} />
+                  {member.name}
+                </button>
+              ))}
+            </FilterGroup>
+
+            <FilterGroup label="Etiquetas">
+              {tags.map((tag) => (
+                <button
+                  key={tag.id}
+                  type="button"
+                  onClick={() => update({ tags: toggle(filter.tags, tag.id) })}
+                  className={chipClassName(filter.tags.includes(tag.id))}
+                >
+                  <span className={`w-2 h-2 rounded-full ${getColor(tag.color).swatch}`} />
+                  {tag.label}
+                </button>
+              ))}
+            </FilterGroup>
+
+            <FilterGroup label="Prioridade">
+              {PRIORITIES.map((p) => (
+                <button
+                  key={p.id}
+                  type="button"
+                  onClick={() => update({ priorities: toggle(filter.priorities, p.id) })}
+                  className={chipClassName(filter.priorities.includes(p.id))}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </FilterGroup>
+
+            <FilterGroup label="Repetição">
+              {RECURRENCE_FREQUENCIES.map((r) => (
+                <button
+                  key={r.id}
+                  type="button"
+                  onClick={() => update({ recurrences: toggle(filter.recurrences, r.id) })}
+                  className={chipClassName(filter.recurrences.includes(r.id))}
+                >
+                  {r.label}
+                </button>
+              ))}
+            </FilterGroup>
+
+            <FilterGroup label="Prazo">
+              <select
+                value={filter.due}
+                onChange={(e) => update({ due: e.target.value as DueFilter })}
+                className={`${inputClassName} w-full cursor-pointer`}
+              >
+                {DUE_FILTERS.map((d) => (
+                  <option key={d.id} value={d.id}>{d.label}</option>
+                ))}
+              </select>
+              {filter.due === 'range' && (
+                <div className="flex items-center gap-2 w-full">
+                  <input
+                    type="date"
+                    value={filter.due_from || ''}
+                    onChange={(e) => update({ due_from: e.target.value || null })}
+                    className={`${inputClassName} flex-1`}
+                    aria-label="Desde"
+                  />
+                  <span className="text-sm text-[var(--color-text-muted)]">a</span>
+                  <input
+                    type="date"
+                    value={filter.due_to || ''}
+                    onChange={(e) => update({ due_to: e.target.value || null })}
+                    className={`${inputClassName} flex-1`}
+                    aria-label="Até"
+                  />
+                </div>
+              )}
+            </FilterGroup>
+          </div>
+        )}
+      </div>
+
+      {/* Saved views */}
+      <div className="relative">
+        <button
+          type="button"
+          onClick={() => setOpenMenu(openMenu === 'views' ? null : 'views')}
+          className={menuButtonClassName}
+        >
+          <Bookmark size={16} />
+          <span className="hidden sm:inline">Vistas</span>
+        </button>
+
+        {openMenu === 'views' && (
+          <div className="absolute left-0 top-11 z-50 w-[280px] flex flex-col rounded-xl border border-[var(--color-border)] bg-[var(--color-surface)] shadow-xl overflow-hidden">
+            <div className="flex flex-col py-1 max-h-[240px] overflow-auto">
+              {views.map((view) => (
+                <div key={view.id} className="group flex items-center hover:bg-[var(--color-bg-secondary)]">
+                  <button
+                    type="button"
+                    onClick={() => applyView(view)}
+                    className="flex-1 px-4 py-2 text-left text-sm text-[var(--color-text-primary)]"
+                  >
+                    {view.name}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteView(view)}
+                    className="p-1.5 mr-2 rounded-md text-[var(--color-text-muted)] opacity-0 group-hover:opacity-100 hover:text-red-500 transition-opacity"
+                    title="Eliminar vista"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+              {views.length === 0 && (
+                <p className="px-4 py-3 text-sm text-[var(--color-text-muted)]">Sem vistas guardadas</p>
+              )}
+            </div>
+
+            {activeCount > 0 && (
+              <form
+                onSubmit={handleSaveView}
+                className="flex items-center gap-2 p-3 border-t border-[var(--color-border)] bg-[var(--color-bg)]"
+              >
+                <input
+                  type="text"
+                  value={viewName}
+                  onChange={(e) => setViewName(e.target.value)}
+                  placeholder="Nome da vista"
+                  className={`${inputClassName} flex-1 min-w-0`}
+                />
+                <button
+                  type="submit"
+                  disabled={!viewName.trim()}
+                  className="h-9 px-3 rounded-md text-sm font-medium text-white bg-[var(--color-accent)] hover:bg-[var(--color-accent-hover)] transition-colors"
+                >
+                  Guardar
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+      </div>
+
+      {activeCount > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange(EMPTY_FILTER)}
+          className="flex items-center gap-1 h-9 px-2 rounded-md text-sm text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)] transition-colors"
+        >
+          <X size={14} />
+          Limpar
+        </button>
+      )}
+    </div>
+  )
+}
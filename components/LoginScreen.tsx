@@ -0,0 +1,137 @@
+'use client'
+
+import { useState } from 'react'
+import { LogIn, Mail } from 'lucide-react'
+import { useAuth } from '@/lib/AuthContext'
+
+type LoginMethod = 'password' | 'magic-link'
+
+export default function LoginScreen() {
+  const { signInWithPassword, signInWithMagicLink, isLocalAuth } = useAuth()
+  const [method, setMethod] = useState<LoginMethod>('password')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [linkSent, setLinkSent] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim()) return
+
+    setSubmitting(true)
+    setError(null)
+
+    if (method === 'password') {
+      const { error } = await signInWithPassword(email.trim(), password)
+      if (error) setError(error)
+    } else {
+      const { error } = await signInWithMagicLink(email.trim())
+      if (error) {
+        setError(error)
+      } else {
+        setLinkSent(true)
+      }
+    }
+
+    setSubmitting(false)
+  }
+
+  const inputClassName = `
+    w-full h-10 px-3 rounded-md text-sm
+    border border-[var(--color-border)] bg-[var(--color-surface)]
+    text-[var(--color-text-primary)]
+    placeholder:text-[var(--color-text-muted)]
+    focus:border-[var(--color-accent)] focus:ring-1 focus:ring-[var(--color-accent)]
+    transition-colors duration-150 outline-none
+  `
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-[var(--color-bg)] px-4">
+      <div className="w-full max-w-sm bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-6">
+        <h1 className="text-xl font-semibold text-[var(--color-text-primary)]">
+          Quadro Kanban
+        </h1>
+        <p className="text-sm text-[var(--color-text-muted)] mt-1 mb-5">
+          Inicia sessão para continuar
+          {isLocalAuth && ' (modo local)'}
+        </p>
+
+        {/* Method toggle */}
+        <div className="flex items-center bg-[var(--color-bg)] rounded-lg p-1 border border-[var(--color-border)] mb-4">
+          {(['password', 'magic-link'] as LoginMethod[]).map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => {
+                setMethod(m)
+                setError(null)
+                setLinkSent(false)
+              }}
+              className={`
+                flex-1 px-3 py-1.5 rounded-md text-sm font-medium
+                transition-all duration-150
+                ${method === m
+                  ? 'bg-[var(--color-accent)] text-white shadow-sm'
+                  : 'text-[var(--color-text-muted)] hover:text-[var(--color-text-primary)]'
+                }
+              `}
+            >
+              {m === 'password' ? 'Palavra-passe' : 'Link mágico'}
+            </button>
+          ))}
+        </div>
+
+        {linkSent ? (
+          <p className="text-sm text-[var(--color-text-secondary)]">
+            Enviámos um link de acesso para <strong>{email}</strong>. Abre o email para entrar.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email"
+              required
+              autoFocus
+              className={inputClassName}
+            />
+            {method === 'password' && (
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Palavra-passe"
+                required
+                className={inputClassName}
+              />
+            )}
+
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="
+                flex items-center justify-center gap-2 h-10 px-4 rounded-md
+                text-sm font-medium text-white
+                bg-[var(--color-accent)]
+                hover:bg-[var(--color-accent-hover)]
+                disabled:opacity-60
+                transition-colors duration-150
+              "
+            >
+              {method === 'password' ? <LogIn size={16} /> : <Mail size={16} />}
+              {submitting
+                ? 'A entrar...'
+                : method === 'password' ? 'Entrar' : 'Enviar link'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
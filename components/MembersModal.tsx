@@ -0,0 +1,277 @@
+'use client'
+
+import { useState } from 'react'
+import { X, UserPlus, UserX, UserCheck, ArrowRightLeft } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useAuth } from '@/lib/AuthContext'
+import { useMembers } from '@/lib/MembersContext'
+import { createMember, updateMember, reassignOpenTasks } from '@/lib/members'
+import { Member, ColorId } from '@/lib/types'
+import Avatar from './Avatar'
+import ColorPicker from './ColorPicker'
+
+interface MembersModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const inputClassName = `
+  w-full h-9 px-3 rounded-md text-sm
+  border border-[var(--color-border)] bg-[var(--color-surface)]
+  text-[var(--color-text-primary)]
+  placeholder:text-[var(--color-text-muted)]
+  focus:border-[var(--color-accent)] focus:ring-1 focus:ring-[var(--color-accent)]
+  transition-colors duration-150 outline-none
+`
+
+function MemberRow({ member }: { member: Member }) {
+  const { user } = useAuth()
+  const { activeMembers, currentMember, refreshMembers } = useMembers()
+  const [name, setName] = useState(member.name)
+  const [email, setEmail] = useState(member.email || '')
+  const [avatarUrl, setAvatarUrl] = useState(member.avatar_url || '')
+  const [reassigning, setReassigning] = useState(false)
+  const [reassignTo, setReassignTo] = useState('')
+
+  const otherActiveMembers = activeMembers.filter((m) => m.id !== member.id)
+
+  const save = async (updates: Parameters<typeof updateMember>[1]) => {
+    const ok = await updateMember(member.id, updates)
+    if (!ok) {
+      toast.error('Erro ao atualizar pessoa')
+      return
+    }
+    await refreshMembers()
+  }
+
+  const saveDetails = () => {
+    const trimmedName = name.trim()
+    if (!trimmedName) {
+      setName(member.name)
+      return
+    }
+    if (
+      trimmedName === member.name &&
+      email.trim() === (member.email || '') &&
+      avatarUrl.trim() === (member.avatar_url || '')
+    ) {
+      return
+    }
+    save({
+      name: trimmedName,
+      email: email.trim() || null,
+      avatar_url: avatarUrl.trim() || null,
+    })
+  }
+
+  const confirmReassign = async (deactivate: boolean) => {
+    if (reassignTo) {
+      const count = await reassignOpenTasks(
+        member.id,
+        reassignTo,
+        { name: user?.name ?? 'Anónimo', memberId: currentMember?.id ?? null },
+        activeMembers
+      )
+      if (count === null) {
+        toast.error('Erro ao reatribuir tarefas')
+        return
+      }
+      if (count > 0) {
+        toast.success(`${count} tarefa(s) reatribuída(s)`)
+      }
+    }
+    if (deactivate) {
+      await save({ active: false })
+    }
+    setReassigning(false)
+    setReassignTo('')
+  }
+
+  return (
+    <div className="flex flex-col gap-2 p-3 rounded-lg border border-[var(--color-border)]">
+      <div className="flex items-center gap-3">
+        <Avatar member={member} size={32} />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={saveDetails}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          className={inputClassName}
+          aria-label="Nome"
+        />
+        {member.active ? (
+          <button
+            type="button"
+            onClick={() => setReassigning(!reassigning)}
+            className="p-2 rounded-md text-[var(--color-text-muted)] hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-950/50 transition-colors"
+            title="Desativar"
+          >
+            <UserX size={16} />
+          </button>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={() => setReassigning(!reassigning)}
+              className="p-2 rounded-md text-[var(--color-text-muted)] hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-secondary)] transition-colors"
+              title="Reatribuir tarefas"
+            >
+              <ArrowRightLeft size={16} />
+            </button>
+            <button
+              type="button"
+              onClick={() => save({ active: true })}
+              className="p-2 rounded-md text-[var(--color-text-muted)] hover:text-green-600 hover:bg-green-50 dark:hover:bg-green-950/50 transition-colors"
+              title="Reativar"
+            >
+              <UserCheck size={16} />
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          onBlur={saveDetails}
+          placeholder="Email (para ligar à conta)"
+          className={inputClassName}
+        />
+        <input
+          type="text"
+          value={avatarUrl}
+          onChange={(e) => setAvatarUrl(e.target.value)}
+          onBlur={saveDetails}
+          placeholder="URL do avatar"
+          className={inputClassName}
+        />
+      </div>
+
+      <ColorPicker value={member.color} onChange={(color) => save({ color })} />
+
+      {/* Reassign open tasks, optionally deactivating the member */}
+      {reassigning && (
+        <div className="flex items-center gap-2 pt-2 border-t border-[var(--color-border)]">
+          <span className="text-sm text-[var(--color-text-secondary)] whitespace-nowrap">
+            Tarefas abertas para
+          </span>
+          <select
+            value={reassignTo}
+            onChange={(e) => setReassignTo(e.target.value)}
+            className={`${inputClassName} cursor-pointer`}
+          >
+            <option value="">{member.active ? 'Manter' : 'Escolher...'}</option>
+            {otherActiveMembers.map((m) => (
+              <option key={m.id} value={m.id}>{m.name}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => confirmReassign(member.active)}
+            disabled={!member.active && !reassignTo}
+            className="h-9 px-3 rounded-md text-sm font-medium text-white bg-[var(--color-accent)] hover:bg-[var(--color-accent-hover)] transition-colors whitespace-nowrap"
+          >
+            {member.active ? 'Desativar' : 'Reatribuir'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function MembersModal({ isOpen, onClose }: MembersModalProps) {
+  const { members, refreshMembers } = useMembers()
+  const [newName, setNewName] = useState('')
+  const [newColor, setNewColor] = useState<ColorId>('indigo')
+
+  if (!isOpen) return null
+
+  const activeList = members.filter((m) => m.active)
+  const inactiveList = members.filter((m) => !m.active)
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newName.trim()) return
+
+    const member = await createMember({ name: newName.trim(), color: newColor })
+    if (!member) {
+      toast.error('Erro ao adicionar pessoa')
+      return
+    }
+
+    await refreshMembers()
+    setNewName('')
+    toast.success('Pessoa adicionada!')
+  }
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        onClick={onClose}
+        className="fixed inset-0 z-[9998] bg-black/30 backdrop-blur-[2px]"
+      />
+
+      <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-[9999] w-[calc(100%-32px)] max-w-[480px] max-h-[calc(100vh-80px)] flex flex-col bg-[var(--color-surface)] rounded-2xl shadow-xl overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-[var(--color-border)]">
+          <h2 className="text-[17px] font-semibold text-[var(--color-text-primary)]">Pessoas</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1.5 rounded-md text-[var(--color-text-muted)] hover:bg-[var(--color-bg-secondary)]"
+            aria-label="Fechar"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto px-5 py-4 flex flex-col gap-3">
+          {activeList.map((member) => (
+            <MemberRow key={member.id} member={member} />
+          ))}
+
+          {inactiveList.length > 0 && (
+            <>
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-[var(--color-text-muted)] mt-2">
+                Inativos
+              </h3>
+              {inactiveList.map((member) => (
+                <MemberRow key={member.id} member={member} />
+              ))}
+            </>
+          )}
+        </div>
+
+        {/* Add member */}
+        <form
+          onSubmit={handleAdd}
+          className="flex flex-col gap-2 px-5 py-4 border-t border-[var(--color-border)] bg-[var(--color-bg)]"
+        >
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Nome da nova pessoa"
+              className={inputClassName}
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim()}
+              className="flex items-center gap-2 h-9 px-4 rounded-md text-sm font-medium text-white bg-[var(--color-accent)] hover:bg-[var(--color-accent-hover)] transition-colors whitespace-nowrap"
+            >
+              <UserPlus size={16} />
+              Adicionar
+            </button>
+          </div>
+          <ColorPicker value={newColor} onChange={setNewColor} />
+        </form>
+      </div>
+    </>
+  )
+}
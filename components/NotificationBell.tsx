@@ -0,0 +1,195 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Bell, CheckCheck, Settings2, ArrowLeft } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { formatDistanceToNow } from 'date-fns'
+import { pt } from 'date-fns/locale'
+import { useMembers } from '@/lib/MembersContext'
+import {
+  NOTIFICATION_TYPES,
+  fetchNotifications,
+  formatNotificationMessage,
+  isNotificationEnabled,
+  markNotificationsRead,
+  subscribeNotifications,
+  updateNotificationPreferences,
+} from '@/lib/notifications'
+import { NotificationType, TaskNotification } from '@/lib/types'
+
+interface NotificationBellProps {
+  onOpen: (notification: TaskNotification) => void
+}
+
+const iconButtonClassName = `
+  p-1.5 rounded-md text-[var(--color-text-muted)]
+  hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-secondary)]
+  transition-colors
+`
+
+// Newest first, replacing an older copy of the same notification
+function upsertNotification(list: TaskNotification[], notification: TaskNotification): TaskNotification[] {
+  const others = list.filter((n) => n.id !== notification.id)
+  return [notification, ...others].sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
+
+export default function NotificationBell({ onOpen }: NotificationBellProps) {
+  const { currentMember, refreshMembers } = useMembers()
+  const memberId = currentMember?.id
+  const [notifications, setNotifications] = useState<TaskNotification[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+  const [showPreferences, setShowPreferences] = useState(false)
+
+  useEffect(() => {
+    if (!memberId) return
+
+    fetchNotifications(memberId).then(setNotifications)
+    return subscribeNotifications(memberId, (notification) => {
+      setNotifications((prev) => upsertNotification(prev, notification))
+    })
+  }, [memberId])
+
+  // Only people linked to a member get notifications
+  if (!currentMember) return null
+
+  const unread = notifications.filter((n) => !n.read_at)
+
+  const markRead = async (ids: string[]) => {
+    if (ids.length === 0) return
+    const ok = await markNotificationsRead(ids)
+    if (!ok) {
+      toast.error('Erro ao atualizar notificações')
+      return
+    }
+    const readAt = new Date().toISOString()
+    setNotifications((prev) => prev.map((n) => (ids.includes(n.id) && !n.read_at ? { ...n, read_at: readAt } : n)))
+  }
+
+  const handleOpen = (notification: TaskNotification) => {
+    markRead(notification.read_at ? [] : [notification.id])
+    setIsOpen(false)
+    onOpen(notification)
+  }
+
+  const togglePreference = async (type: NotificationType) => {
+    const preferences = {
+      ...currentMember.notification_preferences,
+      [type]: !isNotificationEnabled(currentMember, type),
+    }
+    const ok = await updateNotificationPreferences(currentMember.id, preferences)
+    if (!ok) {
+      toast.error('Erro ao guardar preferências')
+      return
+    }
+    await refreshMembers()
+  }
+
+  const close = () => {
+    setIsOpen(false)
+    setShowPreferences(false)
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="
+          relative p-2 rounded-md text-[var(--color-text-muted)]
+          hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-secondary)]
+          transition-colors duration-150
+        "
+        aria-label="Notificações"
+        title="Notificações"
+      >
+        <Bell size={18} />
+        {unread.length > 0 && (
+          <span className="absolute top-0.5 right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold leading-4 text-center tabular-nums">
+            {unread.length > 9 ? '9+' : unread.length}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Closes the menu on an outside click */}
+          <div onClick={close} className="fixed inset-0 z-[9998]" />
+
+          <div className="absolute right-0 top-full mt-2 z-[9999] w-[340px] max-h-[min(480px,calc(100vh-80px))] flex flex-col bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl shadow-xl overflow-hidden">
+            <div className="flex items-center gap-1 px-4 py-3 border-b border-[var(--color-border)]">
+              {showPreferences && (
+                <button type="button" onClick={() => setShowPreferences(false)} className={iconButtonClassName} aria-label="Voltar">
+                  <ArrowLeft size={16} />
+                </button>
+              )}
+              <h2 className="flex-1 text-sm font-semibold text-[var(--color-text-primary)]">
+                {showPreferences ? 'Preferências' : 'Notificações'}
+              </h2>
+              {!showPreferences && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => markRead(unread.map((n) => n.id))}
+                    disabled={unread.length === 0}
+                    className={`${iconButtonClassName} disabled:opacity-40`}
+                    title="Marcar todas como lidas"
+                  >
+                    <CheckCheck size={16} />
+                  </button>
+                  <button type="button" onClick={() => setShowPreferences(true)} className={iconButtonClassName} title="Preferências">
+                    <Settings2 size={16} />
+                  </button>
+                </>
+              )}
+            </div>
+
+            {showPreferences ? (
+              <div className="flex flex-col gap-1 px-4 py-3">
+                {NOTIFICATION_TYPES.map((type) => (
+                  <label key={type.id} className="flex items-center gap-2.5 py-1.5 text-sm text-[var(--color-text-primary)] cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={isNotificationEnabled(currentMember, type.id)}
+                      onChange={() => togglePreference(type.id)}
+                      className="accent-[var(--color-accent)]"
+                    />
+                    {type.label}
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <div className="flex-1 overflow-auto py-1">
+                {notifications.map((notification) => (
+                  <button
+                    key={notification.id}
+                    type="button"
+                    onClick={() => handleOpen(notification)}
+                    className="w-full flex items-start gap-2.5 px-4 py-2.5 text-left hover:bg-[var(--color-bg-secondary)] transition-colors"
+                  >
+                    <span
+                      className={`mt-1.5 w-2 h-2 shrink-0 rounded-full ${notification.read_at ? 'bg-transparent' : 'bg-[var(--color-accent)]'}`}
+                    />
+                    <span className="flex-1 min-w-0">
+                      <span
+                        className={`block text-[13px] leading-snug ${
+                          notification.read_at ? 'text-[var(--color-text-secondary)]' : 'text-[var(--color-text-primary)] font-medium'
+                        }`}
+                      >
+                        {formatNotificationMessage(notification)}
+                      </span>
+                      <span className="block text-[11px] mt-0.5 text-[var(--color-text-muted)]">
+                        {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true, locale: pt })}
+                      </span>
+                    </span>
+                  </button>
+                ))}
+                {notifications.length === 0 && (
+                  <p className="py-6 text-sm text-center text-[var(--color-text-muted)]">Sem notificações</p>
+                )}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,281 @@
+'use client'
+
+import { format, getDate, getDay, parseISO } from 'date-fns'
+import {
+  createRule,
+  describeRecurrence,
+  WEEKDAY_NAMES,
+  WEEKDAY_ORDER,
+  WEEKDAY_SHORT,
+} from '@/lib/recurrence'
+import {
+  MonthlyPattern,
+  Recurrence,
+  RecurrenceEnd,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RECURRENCE_FREQUENCIES,
+} from '@/lib/types'
+
+interface RecurrenceEditorProps {
+  value: Recurrence
+  // Due date of the task (yyyy-MM-dd), used to prefill day-based patterns
+  dueDate: string
+  onChange: (value: Recurrence) => void
+}
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'dia(s)',
+  weekly: 'semana(s)',
+  monthly: 'mês(es)',
+  yearly: 'ano(s)',
+}
+
+const NTH_OPTIONS = [
+  { id: 1, label: '1.º' },
+  { id: 2, label: '2.º' },
+  { id: 3, label: '3.º' },
+  { id: 4, label: '4.º' },
+  { id: -1, label: 'Último' },
+]
+
+const inputClassName = `
+  h-9 px-2 rounded-md text-sm
+  border border-[var(--color-border)] bg-[var(--color-surface)]
+  text-[var(--color-text-primary)]
+  focus:border-[var(--color-accent)] focus:ring-1 focus:ring-[var(--color-accent)]
+  transition-colors duration-150 outline-none
+`
+
+const labelClassName = 'text-sm text-[var(--color-text-secondary)] whitespace-nowrap'
+
+export default function RecurrenceEditor({ value, dueDate, onChange }: RecurrenceEditorProps) {
+  const anchor = dueDate ? parseISO(dueDate) : new Date()
+
+  const handleFrequencyChange = (frequency: RecurrenceFrequency | 'none') => {
+    if (frequency === 'none') {
+      onChange(null)
+      return
+    }
+
+    const rule = createRule(frequency, anchor)
+    // Keep how the previous rule ended and counted
+    if (value) {
+      rule.end = value.end
+      rule.mode = value.mode
+    }
+    onChange(rule)
+  }
+
+  if (!value) {
+    return (
+      <select
+        value="none"
+        onChange={(e) => handleFrequencyChange(e.target.value as RecurrenceFrequency | 'none')}
+        className={`${inputClassName} w-full cursor-pointer`}
+      >
+        {RECURRENCE_FREQUENCIES.map((f) => (
+          <option key={f.id} value={f.id}>{f.label}</option>
+        ))}
+      </select>
+    )
+  }
+
+  const update = (changes: Partial<RecurrenceRule>) => onChange({ ...value, ...changes })
+
+  const toggleWeekday = (weekday: number) => {
+    const weekdays = value.weekdays || []
+    const next = weekdays.includes(weekday)
+      ? weekdays.filter((d) => d !== weekday)
+      : [...weekdays, weekday]
+    // At least one day must stay selected
+    if (next.length > 0) update({ weekdays: next })
+  }
+
+  const handleMonthlyTypeChange = (type: MonthlyPattern['type']) => {
+    switch (type) {
+      case 'day_of_month':
+        update({ monthly: { type, day: getDate(anchor) } })
+        break
+      case 'nth_weekday':
+        update({ monthly: { type, nth: Math.min(Math.ceil(getDate(anchor) / 7), 4), weekday: getDay(anchor) } })
+        break
+      case 'last_working_day':
+        update({ monthly: { type } })
+        break
+    }
+  }
+
+  const handleEndTypeChange = (type: RecurrenceEnd['type']) => {
+    switch (type) {
+      case 'never':
+        update({ end: { type } })
+        break
+      case 'count':
+        update({ end: { type, count: 5 } })
+        break
+      case 'until':
+        update({ end: { type, date: dueDate || format(new Date(), 'yyyy-MM-dd') } })
+        break
+    }
+  }
+
+  const monthly = value.monthly ?? { type: 'day_of_month', day: getDate(anchor) }
+
+  return (
+    <div className="flex flex-col gap-2 p-3 rounded-lg border border-[var(--color-border)]">
+      <div className="flex items-center gap-2">
+        <select
+          value={value.frequency}
+          onChange={(e) => handleFrequencyChange(e.target.value as RecurrenceFrequency | 'none')}
+          className={`${inputClassName} flex-1 cursor-pointer`}
+        >
+          {RECURRENCE_FREQUENCIES.map((f) => (
+            <option key={f.id} value={f.id}>{f.label}</option>
+          ))}
+        </select>
+        <span className={labelClassName}>a cada</span>
+        <input
+          type="number"
+          min={1}
+          value={value.interval}
+          onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+          className={`${inputClassName} w-16`}
+          aria-label="Intervalo"
+        />
+        <span className={labelClassName}>{UNIT_LABELS[value.frequency]}</span>
+      </div>
+
+      {/* Counted from the due date or from the day it was completed */}
+      <div className="flex items-center gap-4">
+        <label className="flex items-center gap-1.5 text-sm text-[var(--color-text-secondary)] cursor-pointer">
+          <input
+            type="radio"
+            checked={value.mode === 'schedule'}
+            onChange={() => update({ mode: 'schedule' })}
+          />
+          Conforme o calendário
+        </label>
+        <label className="flex items-center gap-1.5 text-sm text-[var(--color-text-secondary)] cursor-pointer">
+          <input
+            type="radio"
+            checked={value.mode === 'after_completion'}
+            onChange={() => update({ mode: 'after_completion' })}
+          />
+          Após conclusão
+        </label>
+      </div>
+
+      {value.mode === 'schedule' && value.frequency === 'weekly' && (
+        <div className="flex gap-1">
+          {WEEKDAY_ORDER.map((weekday) => {
+            const selected = value.weekdays?.includes(weekday)
+            return (
+              <button
+                key={weekday}
+                type="button"
+                onClick={() => toggleWeekday(weekday)}
+                className={`
+                  flex-1 h-8 rounded-md text-xs font-medium transition-colors duration-150
+                  ${selected
+                    ? 'bg-[var(--color-accent)] text-white'
+                    : 'border border-[var(--color-border)] text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-secondary)]'}
+                `}
+              >
+                {WEEKDAY_SHORT[weekday]}
+              </button>
+            )
+          })}
+        </div>
+      )}
+
+      {value.mode === 'schedule' && value.frequency === 'monthly' && (
+        <div className="flex items-center gap-2">
+          <select
+            value={monthly.type}
+            onChange={(e) => handleMonthlyTypeChange(e.target.value as MonthlyPattern['type'])}
+            className={`${inputClassName} cursor-pointer`}
+          >
+            <option value="day_of_month">Num dia fixo</option>
+            <option value="nth_weekday">Num dia da semana</option>
+            <option value="last_working_day">No último dia útil</option>
+          </select>
+          {monthly.type === 'day_of_month' && (
+            <input
+              type="number"
+              min={1}
+              max={31}
+              value={monthly.day}
+              onChange={(e) =>
+                update({ monthly: { type: 'day_of_month', day: Math.min(31, Math.max(1, Number(e.target.value) || 1)) } })
+              }
+              className={`${inputClassName} w-16`}
+              aria-label="Dia do mês"
+            />
+          )}
+          {monthly.type === 'nth_weekday' && (
+            <>
+              <select
+                value={monthly.nth}
+                onChange={(e) => update({ monthly: { ...monthly, nth: Number(e.target.value) } })}
+                className={`${inputClassName} cursor-pointer`}
+                aria-label="Ordem"
+              >
+                {NTH_OPTIONS.map((o) => (
+                  <option key={o.id} value={o.id}>{o.label}</option>
+                ))}
+              </select>
+              <select
+                value={monthly.weekday}
+                onChange={(e) => update({ monthly: { ...monthly, weekday: Number(e.target.value) } })}
+                className={`${inputClassName} flex-1 cursor-pointer`}
+                aria-label="Dia da semana"
+              >
+                {WEEKDAY_ORDER.map((d) => (
+                  <option key={d} value={d}>{WEEKDAY_NAMES[d]}</option>
+                ))}
+              </select>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <span className={labelClassName}>Termina</span>
+        <select
+          value={value.end.type}
+          onChange={(e) => handleEndTypeChange(e.target.value as RecurrenceEnd['type'])}
+          className={`${inputClassName} cursor-pointer`}
+        >
+          <option value="never">Nunca</option>
+          <option value="count">Após</option>
+          <option value="until">Em</option>
+        </select>
+        {value.end.type === 'count' && (
+          <>
+            <input
+              type="number"
+              min={1}
+              value={value.end.count}
+              onChange={(e) => update({ end: { type: 'count', count: Math.max(1, Number(e.target.value) || 1) } })}
+              className={`${inputClassName} w-16`}
+              aria-label="Número de vezes"
+            />
+            <span className={labelClassName}>vezes</span>
+          </>
+        )}
+        {value.end.type === 'until' && (
+          <input
+            type="date"
+            value={value.end.date}
+            onChange={(e) => e.target.value && update({ end: { type: 'until', date: e.target.value } })}
+            className={`${inputClassName} flex-1`}
+            aria-label="Data de fim"
+          />
+        )}
+      </div>
+
+      <p className="text-xs text-[var(--color-text-muted)]">{describeRecurrence(value)}</p>
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { BellRing, Plus, X } from 'lucide-react'
+import { format } from 'date-fns'
+import { pt } from 'date-fns/locale'
+import toast from 'react-hot-toast'
+import { useMembers } from '@/lib/MembersContext'
+import {
+  REMINDER_PRESETS,
+  addReminder,
+  canShowReminders,
+  deleteReminder,
+  describeReminder,
+  fetchTaskReminders,
+  requestReminderPermission,
+} from '@/lib/reminders'
+import { Task, TaskReminder } from '@/lib/types'
+
+interface RemindersSectionProps {
+  task: Task
+}
+
+const inputClassName = `
+  h-8 px-2 rounded-md text-sm
+  border border-[var(--color-border)] bg-[var(--color-surface)]
+  text-[var(--color-text-primary)]
+  focus:border-[var(--color-accent)] focus:ring-1 focus:ring-[var(--color-accent)]
+  transition-colors duration-150 outline-none
+`
+
+// The signed-in member's reminders for a task with a due date
+export default function RemindersSection({ task }: RemindersSectionProps) {
+  const { currentMember } = useMembers()
+  const memberId = currentMember?.id
+  const [reminders, setReminders] = useState<TaskReminder[]>([])
+  const [preset, setPreset] = useState('')
+  const [customDays, setCustomDays] = useState(1)
+  const [customTime, setCustomTime] = useState('09:00')
+
+  useEffect(() => {
+    if (!memberId) return
+    fetchTaskReminders(task.id, memberId).then(setReminders)
+  }, [task.id, memberId])
+
+  if (!memberId || !canShowReminders()) return null
+
+  const add = async (daysBefore: number, time: string) => {
+    if (reminders.some((r) => r.days_before === daysBefore && r.time === time)) return
+
+    if (!(await requestReminderPermission())) {
+      toast.error('Ative as notificações do browser para receber lembretes')
+    }
+
+    const reminder = await addReminder(task, memberId, daysBefore, time)
+    if (!reminder) {
+      toast.error('Erro ao adicionar lembrete')
+      return
+    }
+    setReminders((prev) => [...prev, reminder])
+    setPreset('')
+  }
+
+  const remove = async (id: string) => {
+    const ok = await deleteReminder(id)
+    if (!ok) {
+      toast.error('Erro ao remover lembrete')
+      return
+    }
+    setReminders((prev) => prev.filter((r) => r.id !== id))
+  }
+
+  const handlePresetChange = (value: string) => {
+    setPreset(value)
+    if (value === '' || value === 'custom') return
+    const { days_before, time } = REMINDER_PRESETS[Number(value)]
+    add(days_before, time)
+  }
+
+  return (
+    <div>
+      <label className="flex items-center gap-1 mb-1 text-[13px] font-medium text-[var(--color-text-secondary)]">
+        <BellRing size={14} />
+        Lembretes
+      </label>
+
+      <div className="flex flex-col gap-1.5 p-2 rounded-lg bg-[var(--color-bg)]">
+        {reminders.map((reminder) => (
+          <div key={reminder.id} className="group flex items-center gap-2 px-1 py-0.5 text-sm text-[var(--color-text-primary)]">
+            <span className="flex-1">{describeReminder(reminder)}</span>
+            <span className="text-xs text-[var(--color-text-muted)]">
+              {reminder.delivered_at
+                ? 'Enviado'
+                : reminder.fire_at && format(new Date(reminder.fire_at), "d MMM, HH:mm", { locale: pt })}
+            </span>
+            <button
+              type="button"
+              onClick={() => remove(reminder.id)}
+              className="p-0.5 rounded text-[var(--color-text-muted)] hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+              aria-label="Remover lembrete"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+
+        <select
+          value={preset}
+          onChange={(e) => handlePresetChange(e.target.value)}
+          className={`${inputClassName} w-full cursor-pointer`}
+        >
+          <option value="">Adicionar lembrete…</option>
+          {REMINDER_PRESETS.map((p, i) => (
+            <option key={i} value={i}>{describeReminder(p)}</option>
+          ))}
+          <option value="custom">Personalizado…</option>
+        </select>
+
+        {preset === 'custom' && (
+          <div className="flex items-center gap-2 text-sm text-[var(--color-text-secondary)]">
+            <input
+              type="number"
+              min={0}
+              value={customDays}
+              onChange={(e) => setCustomDays(Math.max(0, Number(e.target.value)))}
+              className={`${inputClassName} w-16`}
+              aria-label="Dias antes"
+            />
+            <span>dias antes, às</span>
+            <input
+              type="time"
+              value={customTime}
+              onChange={(e) => setCustomTime(e.target.value)}
+              className={inputClassName}
+              aria-label="Hora"
+            />
+            <button
+              type="button"
+              onClick={() => add(customDays, customTime)}
+              disabled={!customTime}
+              className="ml-auto p-1.5 rounded-md text-white bg-[var(--color-accent)] hover:bg-[var(--color-accent-hover)] transition-colors"
+              aria-label="Adicionar lembrete"
+            >
+              <Plus size={14} />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
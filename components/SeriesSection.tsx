@@ -0,0 +1,182 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Repeat, CheckCircle2, Circle, SkipForward, Undo2, StopCircle } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { pt } from 'date-fns/locale'
+import toast from 'react-hot-toast'
+import { useAuth } from '@/lib/AuthContext'
+import { useMembers } from '@/lib/MembersContext'
+import { useTags } from '@/lib/TagsContext'
+import { logActivity } from '@/lib/activity'
+import { diffTaskFields } from '@/lib/fieldChanges'
+import { describeRecurrence, projectOccurrences } from '@/lib/recurrence'
+import { fetchSeries, fetchSeriesTasks, setSkippedDates, endSeries } from '@/lib/series'
+import { Task, TaskSeries } from '@/lib/types'
+
+interface SeriesSectionProps {
+  task: Task
+}
+
+const UPCOMING_COUNT = 3
+
+function formatDay(date: string) {
+  return format(parseISO(date), "EEE, d 'de' MMM", { locale: pt })
+}
+
+export default function SeriesSection({ task }: SeriesSectionProps) {
+  const { user } = useAuth()
+  const userName = user?.name ?? 'Anónimo'
+  const { members } = useMembers()
+  const { tags } = useTags()
+  const seriesId = task.series_id!
+  const [series, setSeries] = useState<TaskSeries | null>(null)
+  const [occurrences, setOccurrences] = useState<Task[]>([])
+  const [confirmingEnd, setConfirmingEnd] = useState(false)
+
+  useEffect(() => {
+    fetchSeries(seriesId).then(setSeries)
+    fetchSeriesTasks(seriesId).then(setOccurrences)
+  }, [seriesId])
+
+  if (!series) return null
+
+  const skipped = series.skipped_dates || []
+  const latest = occurrences[occurrences.length - 1]
+  const isActive = !series.ended_at && !!series.recurrence
+  const upcoming = isActive && latest ? projectOccurrences(series.recurrence!, latest, UPCOMING_COUNT) : []
+  const nextToSkip = upcoming.find((o) => !skipped.includes(o.due_date))
+
+  const saveSkipped = async (dates: string[]) => {
+    const ok = await setSkippedDates(series.id, dates)
+    if (!ok) {
+      toast.error('Erro ao atualizar a série')
+      return
+    }
+    setSeries({ ...series, skipped_dates: dates })
+    await logActivity(task.id, 'updated', userName, {
+      fields: diffTaskFields({ ...task, skipped_dates: skipped }, { skipped_dates: dates }, { members, tags }),
+    })
+  }
+
+  const handleEnd = async () => {
+    const ok = await endSeries(series.id)
+    if (!ok) {
+      toast.error('Erro ao terminar a série')
+      return
+    }
+    setSeries({ ...series, ended_at: new Date().toISOString() })
+    setConfirmingEnd(false)
+    // Open occurrences, this one included, stop repeating
+    const fields = task.completed_at ? [] : diffTaskFields(task, { recurrence: null }, { members, tags })
+    if (fields.length > 0) await logActivity(task.id, 'updated', userName, { fields })
+    toast.success('Série terminada')
+  }
+
+  return (
+    <div>
+      <label className="flex items-center gap-1 mb-1 text-[13px] font-medium text-[var(--color-text-secondary)]">
+        <Repeat size={14} />
+        Série
+        <span className="font-normal text-[var(--color-text-muted)]">
+          · {isActive ? describeRecurrence(series.recurrence!) : 'terminada'}
+        </span>
+      </label>
+
+      <div className="flex flex-col gap-0.5 p-2 rounded-lg bg-[var(--color-bg)]">
+        {/* Occurrences so far, with completion history */}
+        {occurrences.map((occurrence) => (
+          <div
+            key={occurrence.id}
+            className={`
+              flex items-center gap-2 px-1 py-0.5 text-sm
+              ${occurrence.id === task.id ? 'font-medium text-[var(--color-text-primary)]' : 'text-[var(--color-text-secondary)]'}
+            `}
+          >
+            {occurrence.completed_at ? (
+              <CheckCircle2 size={14} className="text-green-500 flex-shrink-0" />
+            ) : (
+              <Circle size={14} className="text-[var(--color-text-muted)] flex-shrink-0" />
+            )}
+            <span className="flex-1">
+              {occurrence.due_date ? formatDay(occurrence.due_date) : `#${occurrence.recurrence_index}`}
+            </span>
+            <span className="text-xs text-[var(--color-text-muted)]">
+              {occurrence.completed_at
+                ? `Concluída a ${format(new Date(occurrence.completed_at), 'd MMM', { locale: pt })}`
+                : occurrence.id === task.id ? 'Esta' : 'Por fazer'}
+            </span>
+          </div>
+        ))}
+
+        {/* Projected occurrences that do not exist yet */}
+        {upcoming.map((occurrence) => {
+          const isSkipped = skipped.includes(occurrence.due_date)
+          return (
+            <div key={occurrence.due_date} className="group flex items-center gap-2 px-1 py-0.5 text-sm text-[var(--color-text-muted)]">
+              <Circle size={14} className="flex-shrink-0 opacity-50" strokeDasharray="3 3" />
+              <span className={`flex-1 ${isSkipped ? 'line-through' : ''}`}>{formatDay(occurrence.due_date)}</span>
+              {isSkipped ? (
+                <button
+                  type="button"
+                  onClick={() => saveSkipped(skipped.filter((d) => d !== occurrence.due_date))}
+                  className="flex items-center gap-1 text-xs hover:text-[var(--color-text-primary)]"
+                >
+                  <Undo2 size={12} />
+                  Repor
+                </button>
+              ) : occurrence === nextToSkip && (
+                <button
+                  type="button"
+                  onClick={() => saveSkipped([...skipped, occurrence.due_date])}
+                  className="flex items-center gap-1 text-xs hover:text-[var(--color-text-primary)]"
+                >
+                  <SkipForward size={12} />
+                  Saltar
+                </button>
+              )}
+            </div>
+          )
+        })}
+        {isActive && series.recurrence?.mode === 'after_completion' && (
+          <p className="px-1 py-0.5 text-xs text-[var(--color-text-muted)]">
+            A próxima data é calculada quando esta tarefa for concluída.
+          </p>
+        )}
+      </div>
+
+      {isActive && (
+        confirmingEnd ? (
+          <div className="flex items-center gap-2 mt-2">
+            <span className="flex-1 text-xs text-[var(--color-text-secondary)]">
+              Não serão criadas mais repetições.
+            </span>
+            <button
+              type="button"
+              onClick={() => setConfirmingEnd(false)}
+              className="h-7 px-3 rounded-md text-xs font-medium text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-secondary)]"
+            >
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={handleEnd}
+              className="h-7 px-3 rounded-md text-xs font-medium text-white bg-red-600 hover:bg-red-700"
+            >
+              Terminar
+            </button>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setConfirmingEnd(true)}
+            className="flex items-center gap-1 mt-2 text-xs text-[var(--color-text-muted)] hover:text-red-500 transition-colors"
+          >
+            <StopCircle size={12} />
+            Terminar série
+          </button>
+        )
+      )}
+    </div>
+  )
+}
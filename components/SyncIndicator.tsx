@@ -0,0 +1,59 @@
+'use client'
+
+import { useEffect, useSyncExternalStore } from 'react'
+import { CloudOff, RefreshCw, CloudUpload } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { getSyncStatus, subscribeSyncConflicts, subscribeSyncStatus, SyncStatus } from '@/lib/offline'
+
+// Before hydration the page is assumed online with nothing queued
+const SERVER_STATUS: SyncStatus = { online: true, syncing: false, pending: 0 }
+
+const pillClassName = 'flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium'
+
+export default function SyncIndicator() {
+  const status = useSyncExternalStore(subscribeSyncStatus, getSyncStatus, () => SERVER_STATUS)
+
+  useEffect(() => {
+    return subscribeSyncConflicts((title) => {
+      toast.error(`"${title}" foi alterada entretanto noutro dispositivo. A alteração feita offline foi descartada.`, {
+        duration: 6000,
+      })
+    })
+  }, [])
+
+  if (!status.online) {
+    return (
+      <span
+        className={`${pillClassName} bg-amber-100 text-amber-700`}
+        title="As alterações são guardadas neste dispositivo e enviadas quando voltar a ligação"
+      >
+        <CloudOff size={14} />
+        Offline
+        {status.pending > 0 && <span className="tabular-nums">· {status.pending}</span>}
+      </span>
+    )
+  }
+
+  if (status.syncing) {
+    return (
+      <span className={`${pillClassName} bg-[var(--color-accent-light)] text-[var(--color-accent)]`}>
+        <RefreshCw size={14} className="animate-spin" />
+        A sincronizar
+      </span>
+    )
+  }
+
+  if (status.pending > 0) {
+    return (
+      <span
+        className={`${pillClassName} bg-[var(--color-bg-secondary)] text-[var(--color-text-secondary)]`}
+        title="Sem resposta do servidor; nova tentativa em breve"
+      >
+        <CloudUpload size={14} />
+        <span className="tabular-nums">{status.pending}</span> por enviar
+      </span>
+    )
+  }
+
+  return null
+}
@@ -0,0 +1,243 @@
+'use client'
+
+import { useState } from 'react'
+import { X, Plus, Trash2, Merge } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useTags } from '@/lib/TagsContext'
+import { createTag, updateTag, deleteTag, mergeTags } from '@/lib/tags'
+import { Tag, ColorId, getColor } from '@/lib/types'
+import ColorPicker from './ColorPicker'
+
+interface TagsModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const inputClassName = `
+  w-full h-9 px-3 rounded-md text-sm
+  border border-[var(--color-border)] bg-[var(--color-surface)]
+  text-[var(--color-text-primary)]
+  placeholder:text-[var(--color-text-muted)]
+  focus:border-[var(--color-accent)] focus:ring-1 focus:ring-[var(--color-accent)]
+  transition-colors duration-150 outline-none
+`
+
+type PendingAction = 'merge' | 'delete' | null
+
+function TagRow({ tag }: { tag: Tag }) {
+  const { tags, refreshTags } = useTags()
+  const [label, setLabel] = useState(tag.label)
+  const [pending, setPending] = useState<PendingAction>(null)
+  const [mergeInto, setMergeInto] = useState('')
+
+  const otherTags = tags.filter((t) => t.id !== tag.id)
+  const color = getColor(tag.color)
+
+  const save = async (updates: Parameters<typeof updateTag>[1]) => {
+    const ok = await updateTag(tag.id, updates)
+    if (!ok) {
+      toast.error('Erro ao atualizar etiqueta')
+      return
+    }
+    await refreshTags()
+  }
+
+  const saveLabel = () => {
+    const trimmed = label.trim()
+    if (!trimmed) {
+      setLabel(tag.label)
+      return
+    }
+    if (trimmed !== tag.label) {
+      save({ label: trimmed })
+    }
+  }
+
+  const confirmMerge = async () => {
+    const target = mergeInto || otherTags[0]?.id
+    if (!target) return
+
+    const ok = await mergeTags(tag.id, target)
+    if (!ok) {
+      toast.error('Erro ao juntar etiquetas')
+      return
+    }
+    toast.success('Etiquetas juntas!')
+    await refreshTags()
+  }
+
+  const confirmDelete = async () => {
+    const ok = await deleteTag(tag.id)
+    if (!ok) {
+      toast.error('Erro ao eliminar etiqueta')
+      return
+    }
+    toast.success('Etiqueta eliminada!')
+    await refreshTags()
+  }
+
+  return (
+    <div className="flex flex-col gap-2 p-3 rounded-lg border border-[var(--color-border)]">
+      <div className="flex items-center gap-2">
+        <span
+          className={`
+            inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium whitespace-nowrap
+            ${color.softBg} ${color.softText}
+          `}
+        >
+          {tag.label}
+        </span>
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          onBlur={saveLabel}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          className={inputClassName}
+          aria-label="Nome da etiqueta"
+        />
+        <button
+          type="button"
+          onClick={() => setPending(pending === 'merge' ? null : 'merge')}
+          disabled={otherTags.length === 0}
+          className="p-1.5 rounded-md text-[var(--color-text-muted)] hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-secondary)] transition-colors"
+          title="Juntar com outra etiqueta"
+        >
+          <Merge size={16} />
+        </button>
+        <button
+          type="button"
+          onClick={() => setPending(pending === 'delete' ? null : 'delete')}
+          className="p-1.5 rounded-md text-[var(--color-text-muted)] hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-950/50 transition-colors"
+          title="Eliminar etiqueta"
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+
+      <ColorPicker value={tag.color} onChange={(c) => save({ color: c })} />
+
+      {pending === 'merge' && (
+        <div className="flex items-center gap-2 pt-2 border-t border-[var(--color-border)]">
+          <span className="text-sm text-[var(--color-text-secondary)] whitespace-nowrap">
+            Juntar com
+          </span>
+          <select
+            value={mergeInto || otherTags[0]?.id}
+            onChange={(e) => setMergeInto(e.target.value)}
+            className={`${inputClassName} cursor-pointer`}
+          >
+            {otherTags.map((t) => (
+              <option key={t.id} value={t.id}>{t.label}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={confirmMerge}
+            className="h-9 px-3 rounded-md text-sm font-medium text-white bg-[var(--color-accent)] hover:bg-[var(--color-accent-hover)] transition-colors whitespace-nowrap"
+          >
+            Juntar
+          </button>
+        </div>
+      )}
+
+      {pending === 'delete' && (
+        <div className="flex items-center gap-2 pt-2 border-t border-[var(--color-border)]">
+          <span className="text-sm text-[var(--color-text-secondary)]">
+            A etiqueta será removida de todas as tarefas.
+          </span>
+          <button
+            type="button"
+            onClick={confirmDelete}
+            className="ml-auto h-9 px-3 rounded-md text-sm font-medium text-white bg-red-600 hover:bg-red-700 transition-colors whitespace-nowrap"
+          >
+            Eliminar
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function TagsModal({ isOpen, onClose }: TagsModalProps) {
+  const { tags, refreshTags } = useTags()
+  const [newLabel, setNewLabel] = useState('')
+  const [newColor, setNewColor] = useState<ColorId>('blue')
+
+  if (!isOpen) return null
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newLabel.trim()) return
+
+    const tag = await createTag({ label: newLabel.trim(), color: newColor })
+    if (!tag) {
+      toast.error('Erro ao criar etiqueta')
+      return
+    }
+
+    await refreshTags()
+    setNewLabel('')
+    toast.success('Etiqueta criada!')
+  }
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        onClick={onClose}
+        className="fixed inset-0 z-[9998] bg-black/30 backdrop-blur-[2px]"
+      />
+
+      <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-[9999] w-[calc(100%-32px)] max-w-[480px] max-h-[calc(100vh-80px)] flex flex-col bg-[var(--color-surface)] rounded-2xl shadow-xl overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-[var(--color-border)]">
+          <h2 className="text-[17px] font-semibold text-[var(--color-text-primary)]">Etiquetas</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1.5 rounded-md text-[var(--color-text-muted)] hover:bg-[var(--color-bg-secondary)]"
+            aria-label="Fechar"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto px-5 py-4 flex flex-col gap-3">
+          {tags.map((tag) => (
+            <TagRow key={tag.id} tag={tag} />
+          ))}
+          {tags.length === 0 && (
+            <p className="text-sm text-center text-[var(--color-text-muted)]">Sem etiquetas</p>
+          )}
+        </div>
+
+        {/* Add tag */}
+        <form
+          onSubmit={handleAdd}
+          className="flex flex-col gap-2 px-5 py-4 border-t border-[var(--color-border)] bg-[var(--color-bg)]"
+        >
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              placeholder="Nova etiqueta"
+              className={inputClassName}
+            />
+            <button
+              type="submit"
+              disabled={!newLabel.trim()}
+              className="flex items-center gap-2 h-9 px-4 rounded-md text-sm font-medium text-white bg-[var(--color-accent)] hover:bg-[var(--color-accent-hover)] transition-colors whitespace-nowrap"
+            >
+              <Plus size={16} />
+              Adicionar
+            </button>
+          </div>
+          <ColorPicker value={newColor} onChange={setNewColor} />
+        </form>
+      </div>
+    </>
+  )
+}
@@ -1,18 +1,24 @@
 'use client'
 
-import { useState } from 'react'
+import Image from 'next/image'
 import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
-import { Calendar, AlertCircle, Repeat, Trash2 } from 'lucide-react'
-import { format, isPast, isToday } from 'date-fns'
-import { pt } from 'date-fns/locale'
-import { Task, TaskPriority, ASSIGNEES, PRIORITIES, TAGS, RECURRENCES } from '@/lib/types'
+import { Calendar, AlertCircle, Repeat, Trash2, CheckSquare, MessageSquare, Paperclip, Lock } from 'lucide-react'
+import { Task, TaskPriority, PRIORITIES, getColor } from '@/lib/types'
+import { useMembers } from '@/lib/MembersContext'
+import { useTags } from '@/lib/TagsContext'
+import { getAttachmentUrl } from '@/lib/attachments'
+import { describeRecurrence } from '@/lib/recurrence'
+import { formatDue, formatDueTime, isDueToday as isTaskDueToday, isOverdue as isTaskOverdue } from '@/lib/dueDates'
+import Avatar from './Avatar'
 
 interface TaskCardProps {
   task: Task
   onClick: () => void
   onDelete?: (id: string) => void
+  isDone?: boolean
   isDragging?: boolean
+  blockedBy?: Task[]
 }
 
 // Priority indicator styling
@@ -22,47 +28,7 @@ const priorityStyles: Record<TaskPriority, string> = {
   low: 'bg-green-500',
 }
 
-// Avatar colors for assignees (fallback)
-const avatarColors: Record<string, { bg: string; text: string }> = {
-  guilherme: { bg: 'bg-indigo-100 dark:bg-indigo-900', text: 'text-indigo-700 dark:text-indigo-300' },
-  safira: { bg: 'bg-pink-100 dark:bg-pink-900', text: 'text-pink-700 dark:text-pink-300' },
-}
-
-// Avatar component with image and fallback
-function Avatar({ assigneeId, label, size = 24 }: { assigneeId: string; label: string; size?: number }) {
-  const [imgError, setImgError] = useState(false)
-  const assignee = ASSIGNEES.find(a => a.id === assigneeId)
-  const initial = label.charAt(0).toUpperCase()
-  const colors = avatarColors[assigneeId] || { bg: 'bg-gray-100 dark:bg-gray-800', text: 'text-gray-700 dark:text-gray-300' }
-
-  if (!assignee || imgError) {
-    return (
-      <div
-        className={`
-          flex items-center justify-center rounded-full font-semibold
-          ${colors.bg} ${colors.text}
-        `}
-        style={{ width: size, height: size, fontSize: size * 0.45 }}
-        title={label}
-      >
-        {initial}
-      </div>
-    )
-  }
-
-  return (
-    <img
-      src={assignee.avatar}
-      alt={label}
-      title={label}
-      onError={() => setImgError(true)}
-      className="rounded-full object-cover"
-      style={{ width: size, height: size }}
-    />
-  )
-}
-
-export default function TaskCard({ task, onClick, onDelete, isDragging }: TaskCardProps) {
+export default function TaskCard({ task, onClick, onDelete, isDone, isDragging, blockedBy = [] }: TaskCardProps) {
   const {
     attributes,
     listeners,
@@ -77,18 +43,19 @@ export default function TaskCard({ task, onClick, onDelete, isDragging }: TaskCa
     transition,
   }
 
-  const assignee = ASSIGNEES.find((a) => a.id === task.assignee)
+  const { getMember } = useMembers()
+  const { getTag } = useTags()
+  const assignee = getMember(task.assignee)
   const priority = PRIORITIES.find((p) => p.id === task.priority)
-  const recurrence = RECURRENCES.find((r) => r.id === task.recurrence)
-  const isOverdue = task.due_date && isPast(new Date(task.due_date)) && !isToday(new Date(task.due_date)) && task.status !== 'done'
-  const isDueToday = task.due_date && isToday(new Date(task.due_date))
-  const hasRecurrence = task.recurrence && task.recurrence !== 'none'
+  const recurrenceSummary = task.recurrence ? describeRecurrence(task.recurrence) : null
+  const isOverdue = isTaskOverdue(task) && !isDone
+  const isDueToday = isTaskDueToday(task)
 
   const dragging = isDragging || isSortableDragging
 
   // Get tag definitions for task tags
   const taskTags = (task.tags || [])
-    .map(tagId => TAGS.find(t => t.id === tagId))
+    .map(tagId => getTag(tagId))
     .filter(Boolean)
 
   return (
@@ -140,6 +107,20 @@ export default function TaskCard({ task, onClick, onDelete, isDragging }: TaskCa
 
       {/* Card content */}
       <div className="pl-3">
+        {/* Cover image */}
+        {task.cover_path && (
+          <div className="relative aspect-video mb-3 rounded-md overflow-hidden bg-[var(--color-bg-secondary)]">
+            <Image
+              src={getAttachmentUrl(task.cover_path)}
+              alt=""
+              fill
+              unoptimized
+              draggable={false}
+              className="object-cover"
+            />
+          </div>
+        )}
+
         {/* Tags - displayed above title */}
         {taskTags.length > 0 && (
           <div className="flex flex-wrap gap-1 mb-2">
@@ -148,7 +129,7 @@ export default function TaskCard({ task, onClick, onDelete, isDragging }: TaskCa
                 key={tag.id}
                 className={`
                   inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium
-                  ${tag.bgColor} ${tag.textColor}
+                  ${getColor(tag.color).softBg} ${getColor(tag.color).softText}
                 `}
               >
                 {tag.label}
@@ -167,6 +148,16 @@ export default function TaskCard({ task, onClick, onDelete, isDragging }: TaskCa
           </h3>
         </div>
 
+        {/* Blocked indicator with the titles of unfinished blockers */}
+        {blockedBy.length > 0 && (
+          <div className="flex items-start gap-1.5 mb-2 px-2 py-1 rounded bg-amber-100 text-amber-800 text-xs">
+            <Lock size={12} strokeWidth={2.5} className="flex-shrink-0 mt-0.5" />
+            <span className="line-clamp-2">
+              Bloqueada por {blockedBy.map((t) => t.title).join(', ')}
+            </span>
+          </div>
+        )}
+
         {/* Description preview */}
         {task.description && (
           <p className="text-sm text-[var(--color-text-secondary)] mb-3 line-clamp-2 leading-relaxed">
@@ -178,7 +169,7 @@ export default function TaskCard({ task, onClick, onDelete, isDragging }: TaskCa
         <div className="flex items-center gap-3 flex-wrap">
           {/* Assignee Avatar */}
           {assignee && (
-            <Avatar assigneeId={assignee.id} label={assignee.label} size={24} />
+            <Avatar member={assignee} size={24} />
           )}
 
           {/* Due date */}
@@ -196,19 +187,57 @@ export default function TaskCard({ task, onClick, onDelete, isDragging }: TaskCa
               <Calendar size={14} strokeWidth={2} />
               <span>
                 {isOverdue ? 'Atrasado • ' : isDueToday ? 'Hoje • ' : ''}
-                {format(new Date(task.due_date), 'd MMM', { locale: pt })}
+                {isDueToday ? formatDueTime(task) ?? formatDue(task) : formatDue(task)}
               </span>
             </div>
           )}
 
-          {/* Recurrence indicator */}
-          {hasRecurrence && (
+          {/* Recurrence summary */}
+          {recurrenceSummary && (
             <div
               className="flex items-center gap-1 text-sm px-2 py-0.5 rounded bg-indigo-100 text-indigo-700"
-              title={recurrence?.label}
+              title={recurrenceSummary}
             >
               <Repeat size={12} strokeWidth={2.5} />
-              <span className="text-xs font-medium">{recurrence?.label}</span>
+              <span className="text-xs font-medium line-clamp-1">{recurrenceSummary}</span>
+            </div>
+          )}
+
+          {/* Checklist progress */}
+          {task.checklist_total > 0 && (
+            <div
+              className={`
+                flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded tabular-nums
+                ${task.checklist_done === task.checklist_total
+                  ? 'bg-green-100 text-green-700'
+                  : 'text-[var(--color-text-muted)]'}
+              `}
+              title="Lista de verificação"
+            >
+              <CheckSquare size={12} strokeWidth={2.5} />
+              <span>{task.checklist_done}/{task.checklist_total}</span>
+            </div>
+          )}
+
+          {/* Comment count */}
+          {task.comment_count > 0 && (
+            <div
+              className="flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded tabular-nums text-[var(--color-text-muted)]"
+              title="Comentários"
+            >
+              <MessageSquare size={12} strokeWidth={2.5} />
+              <span>{task.comment_count}</span>
+            </div>
+          )}
+
+          {/* Attachment count */}
+          {task.attachment_count > 0 && (
+            <div
+              className="flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded tabular-nums text-[var(--color-text-muted)]"
+              title="Anexos"
+            >
+              <Paperclip size={12} strokeWidth={2.5} />
+              <span>{task.attachment_count}</span>
             </div>
           )}
         </div>
@@ -2,8 +2,6 @@
 
 import { useEffect, useRef, useState } from 'react'
 import { X, Trash2, Check, ChevronDown, ChevronUp, Repeat } from 'lucide-react'
-import { format, formatDistanceToNow } from 'date-fns'
-import { pt } from 'date-fns/locale'
 import {
   Task,
   TaskStatus,
@@ -11,53 +9,84 @@ import {
   Assignee,
   Recurrence,
   CreateTaskInput,
-  ActivityLog,
-  COLUMNS,
+  BoardColumn,
+  KanbanBoard,
+  Member,
+  TaskDependency,
   PRIORITIES,
-  ASSIGNEES,
-  TAGS,
-  TagId,
-  RECURRENCES,
+  getColor,
 } from '@/lib/types'
-import { getTaskActivity, formatActivityMessage, getActivityIcon } from '@/lib/activity'
+import { FieldChange } from '@/lib/fieldChanges'
+import { localTimeZone } from '@/lib/dueDates'
 import { useTheme } from '@/lib/ThemeContext'
+import { useTags } from '@/lib/TagsContext'
+import ChecklistSection from './ChecklistSection'
+import TaskTimeline from './TaskTimeline'
+import AttachmentsSection from './AttachmentsSection'
+import DependenciesSection from './DependenciesSection'
+import SeriesSection from './SeriesSection'
+import RemindersSection from './RemindersSection'
+import RecurrenceEditor from './RecurrenceEditor'
 
 interface TaskModalProps {
   task: Task | null
   defaultStatus?: TaskStatus
   defaultDueDate?: string
+  defaultAssignee?: Assignee
+  columns: BoardColumn[]
+  boards: KanbanBoard[]
+  boardMembers: Member[]
+  tasks: Task[]
+  dependencies: TaskDependency[]
   isOpen: boolean
   onClose: () => void
   onSave: (data: CreateTaskInput & { id?: string }) => void
   onDelete?: (id: string) => void
+  onChecklistComplete?: (task: Task) => void
+  onConvertChecklistItem?: (task: Task, title: string) => Promise<boolean>
+  onDependenciesChange?: () => void
+  onRevertField?: (taskId: string, change: FieldChange) => void
 }
 
 export default function TaskModal({
   task,
-  defaultStatus = 'todo',
+  defaultStatus = '',
   defaultDueDate,
+  defaultAssignee = '',
+  columns,
+  boards,
+  boardMembers,
+  tasks,
+  dependencies,
   isOpen,
   onClose,
   onSave,
   onDelete,
+  onChecklistComplete,
+  onConvertChecklistItem,
+  onDependenciesChange,
+  onRevertField,
 }: TaskModalProps) {
   const titleInputRef = useRef<HTMLInputElement>(null)
   const { theme } = useTheme()
   const isDark = theme === 'dark'
+  const { tags } = useTags()
 
   const [title, setTitle] = useState('')
   const [description, setDescription] = useState('')
   const [status, setStatus] = useState<TaskStatus>(defaultStatus)
   const [priority, setPriority] = useState<TaskPriority>('medium')
-  const [assignee, setAssignee] = useState<Assignee>('guilherme')
+  const [assignee, setAssignee] = useState<Assignee>(defaultAssignee)
   const [dueDate, setDueDate] = useState('')
-  const [selectedTags, setSelectedTags] = useState<TagId[]>([])
-  const [recurrence, setRecurrence] = useState<Recurrence>('none')
+  const [dueTime, setDueTime] = useState('')
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [recurrence, setRecurrence] = useState<Recurrence>(null)
+  const [boardId, setBoardId] = useState('')
+  // Editing an occurrence of a series asks whether the change applies to the future ones too
+  const [askingScope, setAskingScope] = useState(false)
   
-  // Activity log state
-  const [activities, setActivities] = useState<ActivityLog[]>([])
-  const [activityOpen, setActivityOpen] = useState(false)
-  const [loadingActivity, setLoadingActivity] = useState(false)
+  // Comments and activity timeline
+  const [timelineOpen, setTimelineOpen] = useState(true)
 
   const isEditing = !!task
 
@@ -68,26 +97,27 @@ export default function TaskModal({
       setStatus(task.status)
       setPriority(task.priority)
       setAssignee(task.assignee)
-      setDueDate(task.due_date ? format(new Date(task.due_date), 'yyyy-MM-dd') : '')
-      setSelectedTags((task.tags as TagId[]) || [])
-      setRecurrence(task.recurrence || 'none')
-      
-      // Load activity log
-      setActivityOpen(false)
-      setActivities([])
+      setDueDate(task.due_date ? task.due_date.slice(0, 10) : '')
+      setDueTime(task.due_time || '')
+      setSelectedTags(task.tags || [])
+      setRecurrence(task.recurrence)
+      setBoardId(task.board_id)
+
+      setTimelineOpen(true)
+      setAskingScope(false)
     } else {
       setTitle('')
       setDescription('')
       setStatus(defaultStatus)
       setPriority('medium')
-      setAssignee('guilherme')
+      setAssignee(defaultAssignee)
       setDueDate(defaultDueDate || '')
+      setDueTime('')
       setSelectedTags([])
-      setRecurrence('none')
-      setActivities([])
-      setActivityOpen(false)
+      setRecurrence(null)
+      setBoardId('')
     }
-  }, [task, defaultStatus, defaultDueDate, isOpen])
+  }, [task, defaultStatus, defaultDueDate, defaultAssignee, isOpen])
 
   useEffect(() => {
     if (isOpen && titleInputRef.current) {
@@ -104,18 +134,7 @@ export default function TaskModal({
     }
   }, [isOpen])
 
-  // Load activity when expanded
-  useEffect(() => {
-    if (activityOpen && task && activities.length === 0) {
-      setLoadingActivity(true)
-      getTaskActivity(task.id).then(data => {
-        setActivities(data)
-        setLoadingActivity(false)
-      })
-    }
-  }, [activityOpen, task, activities.length])
-
-  const toggleTag = (tagId: TagId) => {
+  const toggleTag = (tagId: string) => {
     setSelectedTags(prev => 
       prev.includes(tagId)
         ? prev.filter(t => t !== tagId)
@@ -123,10 +142,16 @@ export default function TaskModal({
     )
   }
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault()
-    if (!title.trim()) return
+  const seriesFieldsChanged = !!task && (
+    task.title !== title.trim() ||
+    (task.description || '') !== description.trim() ||
+    task.priority !== priority ||
+    task.assignee !== assignee ||
+    JSON.stringify(task.tags || []) !== JSON.stringify(selectedTags) ||
+    JSON.stringify(task.recurrence) !== JSON.stringify(recurrence)
+  )
 
+  const save = (scope?: CreateTaskInput['scope']) => {
     onSave({
       ...(task ? { id: task.id } : {}),
       title: title.trim(),
@@ -135,11 +160,26 @@ export default function TaskModal({
       priority,
       assignee,
       due_date: dueDate || undefined,
+      // The time is kept in the zone it was set in; new times are in this device's zone
+      ...(dueDate && dueTime ? { due_time: dueTime, due_timezone: task?.due_timezone || localTimeZone() } : {}),
       tags: selectedTags.length > 0 ? selectedTags : undefined,
       recurrence,
+      ...(task && boardId ? { board_id: boardId } : {}),
+      ...(scope ? { scope } : {}),
     })
   }
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!title.trim()) return
+
+    if (task?.series_id && seriesFieldsChanged) {
+      setAskingScope(true)
+      return
+    }
+    save()
+  }
+
   if (!isOpen) return null
 
   const inputStyle: React.CSSProperties = {
@@ -266,19 +306,45 @@ export default function TaskModal({
                 />
               </div>
 
+              {/* Checklist - Only for existing tasks, items are saved as they change */}
+              {task && (
+                <ChecklistSection
+                  key={task.id}
+                  task={task}
+                  onAllDone={() => onChecklistComplete?.(task)}
+                  onConvertToTask={(itemTitle) =>
+                    onConvertChecklistItem ? onConvertChecklistItem(task, itemTitle) : Promise.resolve(false)
+                  }
+                />
+              )}
+
+              {/* Attachments - Only for existing tasks, files upload as they are added */}
+              {task && <AttachmentsSection key={task.id} task={task} />}
+
+              {/* Blocked by - Only for existing tasks */}
+              {task && (
+                <DependenciesSection
+                  task={task}
+                  tasks={tasks}
+                  dependencies={dependencies}
+                  columns={columns}
+                  onChange={() => onDependenciesChange?.()}
+                />
+              )}
+
               {/* Tags Multi-select */}
               <div>
                 <label style={labelStyle}>Etiquetas</label>
                 <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
-                  {TAGS.map((tag) => {
+                  {tags.map((tag) => {
                     const isSelected = selectedTags.includes(tag.id)
-                    const colorMap: Record<string, { bg: string; bgSelected: string; text: string; border: string }> = {
-                      trabalho: { bg: isDark ? '#1e3a5f' : '#eff6ff', bgSelected: '#3b82f6', text: isDark ? '#93c5fd' : '#1d4ed8', border: isDark ? '#3b82f6' : '#93c5fd' },
-                      pessoal: { bg: isDark ? '#14532d' : '#f0fdf4', bgSelected: '#22c55e', text: isDark ? '#86efac' : '#15803d', border: isDark ? '#22c55e' : '#86efac' },
-                      urgente: { bg: isDark ? '#450a0a' : '#fef2f2', bgSelected: '#ef4444', text: isDark ? '#fca5a5' : '#b91c1c', border: isDark ? '#ef4444' : '#fca5a5' },
-                      ideia: { bg: isDark ? '#3b0764' : '#faf5ff', bgSelected: '#a855f7', text: isDark ? '#d8b4fe' : '#7e22ce', border: isDark ? '#a855f7' : '#d8b4fe' },
+                    const { hex } = getColor(tag.color)
+                    const colors = {
+                      bg: isDark ? hex.darkBg : hex.lightBg,
+                      bgSelected: hex.solid,
+                      text: isDark ? hex.darkText : hex.lightText,
+                      border: isDark ? hex.solid : hex.lightBorder,
                     }
-                    const colors = colorMap[tag.id]
                     
                     return (
                       <button
@@ -316,7 +382,7 @@ export default function TaskModal({
                     onChange={(e) => setStatus(e.target.value as TaskStatus)}
                     style={{ ...inputStyle, cursor: 'pointer' }}
                   >
-                    {COLUMNS.map((col) => (
+                    {columns.map((col) => (
                       <option key={col.id} value={col.id}>{col.title}</option>
                     ))}
                   </select>
@@ -343,9 +409,14 @@ export default function TaskModal({
                     onChange={(e) => setAssignee(e.target.value as Assignee)}
                     style={{ ...inputStyle, cursor: 'pointer' }}
                   >
-                    {ASSIGNEES.map((a) => (
-                      <option key={a.id} value={a.id}>{a.label}</option>
-                    ))}
+                    {/* Inactive members only show up when already assigned */}
+                    {boardMembers
+                      .filter((m) => m.active || m.id === assignee)
+                      .map((m) => (
+                        <option key={m.id} value={m.id}>
+                          {m.name}{m.active ? '' : ' (inativo)'}
+                        </option>
+                      ))}
                   </select>
                 </div>
                 <div>
@@ -359,24 +430,56 @@ export default function TaskModal({
                 </div>
               </div>
 
+              {/* Optional due time - Only with a due date */}
+              {dueDate && (
+                <div>
+                  <label style={labelStyle}>Hora Limite (opcional)</label>
+                  <input
+                    type="time"
+                    value={dueTime}
+                    onChange={(e) => setDueTime(e.target.value)}
+                    style={{ ...inputStyle, cursor: 'pointer' }}
+                  />
+                  {dueTime && task?.due_timezone && task.due_timezone !== localTimeZone() && (
+                    <p style={{ fontSize: '12px', marginTop: '4px', color: isDark ? '#94a3b8' : '#6b7280' }}>
+                      Hora de {task.due_timezone}
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Recurrence selector */}
               <div>
                 <label style={labelStyle}>
                   <Repeat size={14} style={{ display: 'inline', marginRight: '4px', verticalAlign: 'middle' }} />
                   Repetição
                 </label>
-                <select
-                  value={recurrence}
-                  onChange={(e) => setRecurrence(e.target.value as Recurrence)}
-                  style={{ ...inputStyle, cursor: 'pointer' }}
-                >
-                  {RECURRENCES.map((r) => (
-                    <option key={r.id} value={r.id}>{r.label}</option>
-                  ))}
-                </select>
+                <RecurrenceEditor value={recurrence} dueDate={dueDate} onChange={setRecurrence} />
               </div>
 
-              {/* Activity Log Section - Only for existing tasks */}
+              {/* Occurrences of the series - Only for recurring tasks that belong to one */}
+              {task?.series_id && <SeriesSection key={task.id} task={task} />}
+
+              {/* Reminders - Only once the task has a due date */}
+              {task?.due_date && <RemindersSection key={task.id} task={task} />}
+
+              {/* Move to another board - keeps the task and its history */}
+              {isEditing && boards.length > 1 && (
+                <div>
+                  <label style={labelStyle}>Quadro</label>
+                  <select
+                    value={boardId}
+                    onChange={(e) => setBoardId(e.target.value)}
+                    style={{ ...inputStyle, cursor: 'pointer' }}
+                  >
+                    {boards.map((b) => (
+                      <option key={b.id} value={b.id}>{b.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {/* Comments and activity - Only for existing tasks */}
               {isEditing && (
                 <div style={{ 
                   marginTop: '8px', 
@@ -385,7 +488,7 @@ export default function TaskModal({
                 }}>
                   <button
                     type="button"
-                    onClick={() => setActivityOpen(!activityOpen)}
+                    onClick={() => setTimelineOpen(!timelineOpen)}
                     style={{
                       display: 'flex',
                       alignItems: 'center',
@@ -400,73 +503,18 @@ export default function TaskModal({
                       fontWeight: 500,
                     }}
                   >
-                    <span>📋 Histórico de Atividade</span>
-                    {activityOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                    <span>💬 Comentários e Atividade</span>
+                    {timelineOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
                   </button>
 
-                  {activityOpen && (
-                    <div style={{ 
-                      marginTop: '8px',
-                      maxHeight: '200px',
-                      overflowY: 'auto',
-                      backgroundColor: isDark ? '#0f172a' : '#f9fafb',
-                      borderRadius: '8px',
-                      padding: '12px',
-                    }}>
-                      {loadingActivity ? (
-                        <p style={{ 
-                          fontSize: '13px', 
-                          color: isDark ? '#94a3b8' : '#9ca3af',
-                          textAlign: 'center' 
-                        }}>
-                          A carregar...
-                        </p>
-                      ) : activities.length === 0 ? (
-                        <p style={{ 
-                          fontSize: '13px', 
-                          color: isDark ? '#94a3b8' : '#9ca3af',
-                          textAlign: 'center' 
-                        }}>
-                          Sem atividade registada
-                        </p>
-                      ) : (
-                        <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
-                          {activities.map((activity) => (
-                            <div 
-                              key={activity.id}
-                              style={{ 
-                                display: 'flex',
-                                gap: '8px',
-                                alignItems: 'flex-start',
-                              }}
-                            >
-                              <span style={{ fontSize: '14px' }}>
-                                {getActivityIcon(activity.action)}
-                              </span>
-                              <div style={{ flex: 1 }}>
-                                <p style={{ 
-                                  fontSize: '13px',
-                                  color: isDark ? '#e2e8f0' : '#374151',
-                                  margin: 0,
-                                  lineHeight: 1.4,
-                                }}>
-                                  {formatActivityMessage(activity)}
-                                </p>
-                                <p style={{
-                                  fontSize: '11px',
-                                  color: isDark ? '#64748b' : '#9ca3af',
-                                  margin: '2px 0 0 0',
-                                }}>
-                                  {formatDistanceToNow(new Date(activity.created_at), { 
-                                    addSuffix: true,
-                                    locale: pt 
-                                  })}
-                                </p>
-                              </div>
-                            </div>
-                          ))}
-                        </div>
-                      )}
+                  {timelineOpen && task && (
+                    <div style={{ marginTop: '8px' }}>
+                      <TaskTimeline
+                        key={task.id}
+                        taskId={task.id}
+                        columns={columns}
+                        onRevertField={onRevertField && ((change) => onRevertField(task.id, change))}
+                      />
                     </div>
                   )}
                 </div>
@@ -507,6 +555,43 @@ export default function TaskModal({
               Eliminar
             </button>
           )}
+          {askingScope ? (
+          <div style={{ display: 'flex', gap: '10px', alignItems: 'center' }}>
+            <span style={{ fontSize: '13px', color: isDark ? '#94a3b8' : '#6b7280' }}>Aplicar a:</span>
+            <button
+              type="button"
+              onClick={() => save('this')}
+              style={{
+                padding: '10px 16px',
+                fontSize: '14px',
+                fontWeight: 500,
+                color: isDark ? '#e2e8f0' : '#374151',
+                backgroundColor: isDark ? '#1e293b' : 'white',
+                border: `1px solid ${isDark ? '#475569' : '#e5e7eb'}`,
+                borderRadius: '8px',
+                cursor: 'pointer',
+              }}
+            >
+              Só esta
+            </button>
+            <button
+              type="button"
+              onClick={() => save('future')}
+              style={{
+                padding: '10px 20px',
+                fontSize: '14px',
+                fontWeight: 600,
+                color: 'white',
+                backgroundColor: '#4f46e5',
+                border: 'none',
+                borderRadius: '8px',
+                cursor: 'pointer',
+              }}
+            >
+              Esta e as seguintes
+            </button>
+          </div>
+          ) : (
           <div style={{ display: 'flex', gap: '10px' }}>
             <button
               type="button"
@@ -542,6 +627,7 @@ export default function TaskModal({
               {isEditing ? 'Guardar' : 'Criar'}
             </button>
           </div>
+          )}
         </div>
       </div>
     </>
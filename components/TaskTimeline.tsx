@@ -0,0 +1,374 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Pencil, Trash2, Send, RotateCcw } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { pt } from 'date-fns/locale'
+import toast from 'react-hot-toast'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/lib/AuthContext'
+import { getTaskActivity, formatActivityMessage, getActivityIcon } from '@/lib/activity'
+import { fetchComments, addComment, updateComment, deleteComment } from '@/lib/comments'
+import { FIELD_LABELS, FieldChange, diffText, formatFieldChange } from '@/lib/fieldChanges'
+import { ActivityLog, BoardColumn, TaskComment } from '@/lib/types'
+
+interface TaskTimelineProps {
+  taskId: string
+  columns: BoardColumn[]
+  onRevertField?: (change: FieldChange) => void
+}
+
+type TimelineEntry =
+  | { kind: 'activity'; at: string; activity: ActivityLog }
+  | { kind: 'comment'; at: string; comment: TaskComment }
+
+const textareaClassName = `
+  w-full px-3 py-2 rounded-md text-sm resize-none
+  border border-[var(--color-border)] bg-[var(--color-surface)]
+  text-[var(--color-text-primary)]
+  placeholder:text-[var(--color-text-muted)]
+  focus:border-[var(--color-accent)] focus:ring-1 focus:ring-[var(--color-accent)]
+  transition-colors duration-150 outline-none
+`
+
+function timeAgo(date: string) {
+  return formatDistanceToNow(new Date(date), { addSuffix: true, locale: pt })
+}
+
+// Insert or replace a comment, keeping the list in creation order
+function upsertComment(comments: TaskComment[], comment: TaskComment): TaskComment[] {
+  const others = comments.filter((c) => c.id !== comment.id)
+  return [...others, comment].sort((a, b) => a.created_at.localeCompare(b.created_at))
+}
+
+interface CommentEntryProps {
+  comment: TaskComment
+  isOwn: boolean
+  onUpdated: (comment: TaskComment) => void
+  onDeleted: (id: string) => void
+}
+
+function CommentEntry({ comment, isOwn, onUpdated, onDeleted }: CommentEntryProps) {
+  const [editing, setEditing] = useState(false)
+  const [body, setBody] = useState(comment.body)
+
+  const save = async () => {
+    const trimmed = body.trim()
+    if (!trimmed || trimmed === comment.body) {
+      setBody(comment.body)
+      setEditing(false)
+      return
+    }
+
+    const ok = await updateComment(comment.id, trimmed)
+    if (!ok) {
+      toast.error('Erro ao editar comentário')
+      return
+    }
+    onUpdated({ ...comment, body: trimmed, updated_at: new Date().toISOString() })
+    setEditing(false)
+  }
+
+  const remove = async () => {
+    const ok = await deleteComment(comment.id)
+    if (!ok) {
+      toast.error('Erro ao eliminar comentário')
+      return
+    }
+    onDeleted(comment.id)
+  }
+
+  const wasEdited = comment.updated_at !== comment.created_at
+
+  return (
+    <div className="group flex flex-col gap-1 p-2.5 rounded-lg bg-[var(--color-surface)] border border-[var(--color-border)]">
+      <div className="flex items-center gap-2">
+        <span className="text-[13px] font-medium text-[var(--color-text-primary)]">
+          {comment.author_name}
+        </span>
+        <span className="text-[11px] text-[var(--color-text-muted)]" title={new Date(comment.created_at).toLocaleString('pt-PT')}>
+          {timeAgo(comment.created_at)}
+          {wasEdited && ' • editado'}
+        </span>
+        {isOwn && !editing && (
+          <div className="ml-auto flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button
+              type="button"
+              onClick={() => setEditing(true)}
+              className="p-1 rounded text-[var(--color-text-muted)] hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-secondary)]"
+              title="Editar comentário"
+            >
+              <Pencil size={12} />
+            </button>
+            <button
+              type="button"
+              onClick={remove}
+              className="p-1 rounded text-[var(--color-text-muted)] hover:bg-[var(--color-bg-secondary)] hover:text-red-500"
+              title="Eliminar comentário"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {editing ? (
+        <div className="flex flex-col gap-2">
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={2}
+            autoFocus
+            className={textareaClassName}
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setBody(comment.body)
+                setEditing(false)
+              }}
+              className="h-7 px-3 rounded-md text-xs font-medium text-[var(--color-text-secondary)] hover:bg-[var(--color-bg-secondary)]"
+            >
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={save}
+              className="h-7 px-3 rounded-md text-xs font-medium text-white bg-[var(--color-accent)] hover:bg-[var(--color-accent-hover)]"
+            >
+              Guardar
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-[var(--color-text-primary)] whitespace-pre-wrap break-words">
+          {comment.body}
+        </p>
+      )}
+    </div>
+  )
+}
+
+// Old and new description, word by word
+function DescriptionDiff({ change }: { change: FieldChange }) {
+  const parts = diffText((change.from as string | null) ?? '', (change.to as string | null) ?? '')
+
+  return (
+    <p className="mt-1 p-2 rounded-md text-[12px] leading-snug bg-[var(--color-surface)] text-[var(--color-text-secondary)] whitespace-pre-wrap break-words">
+      {parts.map((part, i) =>
+        part.type === 'added' ? (
+          <ins key={i} className="no-underline bg-green-100 text-green-800 dark:bg-green-950/50 dark:text-green-300">{part.text}</ins>
+        ) : part.type === 'removed' ? (
+          <del key={i} className="bg-red-100 text-red-700 dark:bg-red-950/50 dark:text-red-300">{part.text}</del>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </p>
+  )
+}
+
+interface ActivityEntryProps {
+  activity: ActivityLog
+  columns: BoardColumn[]
+  onRevertField?: (change: FieldChange) => void
+}
+
+function ActivityEntry({ activity, columns, onRevertField }: ActivityEntryProps) {
+  const fields = activity.action === 'updated' ? (activity.details?.fields as FieldChange[] | undefined) : undefined
+
+  return (
+    <div className="flex gap-2 items-start px-1">
+      <span className="text-sm">{getActivityIcon(activity.action)}</span>
+      <div className="flex-1 min-w-0">
+        {fields ? (
+          <>
+            <p className="text-[13px] leading-snug text-[var(--color-text-secondary)]">{activity.user_name} editou</p>
+            <ul className="flex flex-col gap-0.5 mt-0.5">
+              {fields.map((change) => (
+                <li key={change.field} className="group">
+                  <div className="flex items-center gap-1">
+                    <span className="text-[13px] leading-snug text-[var(--color-text-secondary)]">
+                      {formatFieldChange(change)}
+                    </span>
+                    {onRevertField && (
+                      <button
+                        type="button"
+                        onClick={() => onRevertField(change)}
+                        className="p-0.5 rounded text-[var(--color-text-muted)] hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-secondary)] opacity-0 group-hover:opacity-100 transition-opacity"
+                        title={`Reverter ${FIELD_LABELS[change.field]}`}
+                      >
+                        <RotateCcw size={12} />
+                      </button>
+                    )}
+                  </div>
+                  {change.field === 'description' && <DescriptionDiff change={change} />}
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          <p className="text-[13px] leading-snug text-[var(--color-text-secondary)]">
+            {formatActivityMessage(activity, columns)}
+          </p>
+        )}
+        <p className="text-[11px] mt-0.5 text-[var(--color-text-muted)]">
+          {timeAgo(activity.created_at)}
+        </p>
+      </div>
+    </div>
+  )
+}
+
+export default function TaskTimeline({ taskId, columns, onRevertField }: TaskTimelineProps) {
+  const { user } = useAuth()
+  const [activities, setActivities] = useState<ActivityLog[]>([])
+  const [comments, setComments] = useState<TaskComment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [newComment, setNewComment] = useState('')
+  const [posting, setPosting] = useState(false)
+
+  useEffect(() => {
+    Promise.all([getTaskActivity(taskId), fetchComments(taskId)]).then(([activityData, commentData]) => {
+      setActivities(activityData)
+      setComments(commentData)
+      setLoading(false)
+    })
+  }, [taskId])
+
+  // Live comments from the other person
+  useEffect(() => {
+    const channel = supabase
+      .channel(`comments-channel-${taskId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'task_comments', filter: `task_id=eq.${taskId}` },
+        (payload) => {
+          setComments((prev) => upsertComment(prev, payload.new as TaskComment))
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'task_comments', filter: `task_id=eq.${taskId}` },
+        (payload) => {
+          setComments((prev) => upsertComment(prev, payload.new as TaskComment))
+        }
+      )
+      // Delete events cannot be filtered, so ignore ids that are not ours
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'task_comments' },
+        (payload) => {
+          const deletedId = (payload.old as { id: string }).id
+          setComments((prev) => prev.filter((c) => c.id !== deletedId))
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [taskId])
+
+  // New activity, e.g. after reverting a change from here
+  useEffect(() => {
+    const channel = supabase
+      .channel(`task-activity-channel-${taskId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'activity_log', filter: `task_id=eq.${taskId}` },
+        (payload) => {
+          const activity = payload.new as ActivityLog
+          setActivities((prev) => (prev.some((a) => a.id === activity.id) ? prev : [activity, ...prev]))
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [taskId])
+
+  const handlePost = async () => {
+    const body = newComment.trim()
+    if (!body || !user) return
+
+    setPosting(true)
+    const comment = await addComment(taskId, { name: user.name, email: user.email }, body)
+    setPosting(false)
+
+    if (!comment) {
+      toast.error('Erro ao publicar comentário')
+      return
+    }
+    setComments((prev) => upsertComment(prev, comment))
+    setNewComment('')
+  }
+
+  const isOwnComment = (comment: TaskComment) =>
+    !!user && (comment.author_email ? comment.author_email === user.email : comment.author_name === user.name)
+
+  // Activity is fetched newest first; the timeline reads oldest to newest
+  const entries: TimelineEntry[] = [
+    ...activities.map((activity) => ({ kind: 'activity' as const, at: activity.created_at, activity })),
+    ...comments.map((comment) => ({ kind: 'comment' as const, at: comment.created_at, comment })),
+  ].sort((a, b) => a.at.localeCompare(b.at))
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-col gap-2 max-h-[280px] overflow-y-auto p-3 rounded-lg bg-[var(--color-bg)]">
+        {loading ? (
+          <p className="text-[13px] text-center text-[var(--color-text-muted)]">A carregar...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-[13px] text-center text-[var(--color-text-muted)]">Sem atividade registada</p>
+        ) : (
+          entries.map((entry) =>
+            entry.kind === 'comment' ? (
+              <CommentEntry
+                key={`comment-${entry.comment.id}`}
+                comment={entry.comment}
+                isOwn={isOwnComment(entry.comment)}
+                onUpdated={(updated) => setComments((prev) => upsertComment(prev, updated))}
+                onDeleted={(id) => setComments((prev) => prev.filter((c) => c.id !== id))}
+              />
+            ) : (
+              <ActivityEntry
+                key={`activity-${entry.activity.id}`}
+                activity={entry.activity}
+                columns={columns}
+                onRevertField={onRevertField}
+              />
+            )
+          )
+        )}
+      </div>
+
+      {/* New comment - Ctrl/Cmd+Enter posts */}
+      <div className="flex items-end gap-2">
+        <textarea
+          value={newComment}
+          onChange={(e) => setNewComment(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault()
+              handlePost()
+            }
+          }}
+          placeholder="Escrever um comentário..."
+          rows={2}
+          className={textareaClassName}
+        />
+        <button
+          type="button"
+          onClick={handlePost}
+          disabled={!newComment.trim() || posting}
+          className="p-2.5 rounded-md text-white bg-[var(--color-accent)] hover:bg-[var(--color-accent-hover)] transition-colors disabled:opacity-50"
+          aria-label="Publicar comentário"
+        >
+          <Send size={16} />
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { X, RotateCcw, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { formatDistanceToNow } from 'date-fns'
+import { pt } from 'date-fns/locale'
+import { logActivity } from '@/lib/activity'
+import { taskRepository } from '@/lib/tasks'
+import { deleteTaskPermanently, restoreTask, TRASH_RETENTION_DAYS } from '@/lib/trash'
+import { BoardColumn, Task } from '@/lib/types'
+
+interface TrashModalProps {
+  isOpen: boolean
+  onClose: () => void
+  boardId: string | null
+  columns: BoardColumn[]
+  currentUserName: string
+}
+
+const iconButtonClassName = `
+  p-1.5 rounded-md text-[var(--color-text-muted)]
+  hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-secondary)]
+  transition-colors
+`
+
+interface TrashRowProps {
+  task: Task
+  columnTitle: string
+  onRestore: () => void
+  onDelete: () => void
+}
+
+function TrashRow({ task, columnTitle, onRestore, onDelete }: TrashRowProps) {
+  const [confirming, setConfirming] = useState(false)
+
+  return (
+    <div className="flex flex-col gap-2 p-3 rounded-lg border border-[var(--color-border)]">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-[var(--color-text-primary)] truncate">{task.title}</p>
+          <p className="text-xs text-[var(--color-text-muted)]">
+            {columnTitle} · Eliminada por {task.deleted_by || 'Anónimo'}{' '}
+            {formatDistanceToNow(new Date(task.deleted_at!), { addSuffix: true, locale: pt })}
+          </p>
+        </div>
+        <button type="button" onClick={onRestore} className={iconButtonClassName} title="Restaurar">
+          <RotateCcw size={16} />
+        </button>
+        <button
+          type="button"
+          onClick={() => setConfirming(!confirming)}
+          className="p-1.5 rounded-md text-[var(--color-text-muted)] hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-950/50 transition-colors"
+          title="Eliminar definitivamente"
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+
+      {confirming && (
+        <div className="flex items-center gap-2 pt-2 border-t border-[var(--color-border)]">
+          <span className="text-sm text-[var(--color-text-secondary)]">
+            A tarefa e os seus anexos serão apagados para sempre.
+          </span>
+          <button
+            type="button"
+            onClick={onDelete}
+            className="ml-auto h-9 px-3 rounded-md text-sm font-medium text-white bg-red-600 hover:bg-red-700 transition-colors whitespace-nowrap"
+          >
+            Eliminar
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function TrashModal({ isOpen, onClose, boardId, columns, currentUserName }: TrashModalProps) {
+  const [tasks, setTasks] = useState<Task[]>([])
+
+  useEffect(() => {
+    if (!isOpen || !boardId) return
+
+    taskRepository.listDeleted(boardId).then(({ data, error }) => {
+      if (error) {
+        console.error('Error fetching trash:', error)
+        toast.error('Erro ao carregar o lixo')
+        return
+      }
+      setTasks(data)
+    })
+  }, [isOpen, boardId])
+
+  if (!isOpen) return null
+
+  const columnTitle = (status: string) => columns.find((c) => c.id === status)?.title ?? status
+
+  // The board picks the task up again through its subscription
+  const handleRestore = async (task: Task) => {
+    const { error } = await restoreTask(task.id)
+    if (error) {
+      console.error('Error restoring task:', error)
+      toast.error('Erro ao restaurar tarefa')
+      return
+    }
+
+    await logActivity(task.id, 'restored', currentUserName)
+    setTasks((prev) => prev.filter((t) => t.id !== task.id))
+    toast.success('Tarefa restaurada!')
+  }
+
+  const handleDelete = async (task: Task) => {
+    const { error } = await deleteTaskPermanently(task.id)
+    if (error) {
+      console.error('Error deleting task:', error)
+      toast.error('Erro ao eliminar tarefa')
+      return
+    }
+
+    setTasks((prev) => prev.filter((t) => t.id !== task.id))
+    toast.success('Tarefa eliminada definitivamente')
+  }
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        onClick={onClose}
+        className="fixed inset-0 z-[9998] bg-black/30 backdrop-blur-[2px]"
+      />
+
+      <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-[9999] w-[calc(100%-32px)] max-w-[480px] max-h-[calc(100vh-80px)] flex flex-col bg-[var(--color-surface)] rounded-2xl shadow-xl overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-[var(--color-border)]">
+          <h2 className="text-[17px] font-semibold text-[var(--color-text-primary)]">Lixo</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1.5 rounded-md text-[var(--color-text-muted)] hover:bg-[var(--color-bg-secondary)]"
+            aria-label="Fechar"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto px-5 py-4 flex flex-col gap-3">
+          {tasks.map((task) => (
+            <TrashRow
+              key={task.id}
+              task={task}
+              columnTitle={columnTitle(task.status)}
+              onRestore={() => handleRestore(task)}
+              onDelete={() => handleDelete(task)}
+            />
+          ))}
+          {tasks.length === 0 && (
+            <p className="text-sm text-center text-[var(--color-text-muted)]">O lixo está vazio</p>
+          )}
+        </div>
+
+        <p className="px-5 py-3 border-t border-[var(--color-border)] bg-[var(--color-bg)] text-xs text-[var(--color-text-muted)]">
+          As tarefas no lixo são apagadas automaticamente após {TRASH_RETENTION_DAYS} dias.
+        </p>
+      </div>
+    </>
+  )
+}
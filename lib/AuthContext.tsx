@@ -0,0 +1,53 @@
+'use client'
+
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react'
+import { authBackend, AuthUser, isLocalAuth } from './auth'
+
+interface AuthContextType {
+  user: AuthUser | null
+  loading: boolean
+  isLocalAuth: boolean
+  signInWithPassword: (email: string, password: string) => Promise<{ error: string | null }>
+  signInWithMagicLink: (email: string) => Promise<{ error: string | null }>
+  signOut: () => Promise<void>
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined)
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    // Restore existing session, then follow sign-in/sign-out events
+    authBackend.getUser().then((currentUser) => {
+      setUser(currentUser)
+      setLoading(false)
+    })
+
+    return authBackend.onChange(setUser)
+  }, [])
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user,
+        loading,
+        isLocalAuth,
+        signInWithPassword: authBackend.signInWithPassword,
+        signInWithMagicLink: authBackend.signInWithMagicLink,
+        signOut: authBackend.signOut,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  )
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext)
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider')
+  }
+  return context
+}
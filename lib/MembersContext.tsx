@@ -0,0 +1,79 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react'
+import { supabase } from './supabase'
+import { useAuth } from './AuthContext'
+import { fetchMembers } from './members'
+import { Member } from './types'
+
+interface MembersContextType {
+  members: Member[]
+  activeMembers: Member[]
+  currentMember: Member | null
+  getMember: (id: string | null | undefined) => Member | undefined
+  refreshMembers: () => Promise<void>
+}
+
+const MembersContext = createContext<MembersContextType | undefined>(undefined)
+
+export function MembersProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth()
+  const [members, setMembers] = useState<Member[]>([])
+
+  const refreshMembers = useCallback(async () => {
+    setMembers(await fetchMembers())
+  }, [])
+
+  useEffect(() => {
+    if (!user) return
+
+    fetchMembers().then(setMembers)
+
+    // Renames, new people and deactivations from the other user
+    const channel = supabase
+      .channel('members-channel')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'members' },
+        () => {
+          refreshMembers()
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [user, refreshMembers])
+
+  const getMember = (id: string | null | undefined) => members.find((m) => m.id === id)
+
+  // Link the signed-in user to a member by email, falling back to the display name
+  const currentMember = user
+    ? members.find((m) => m.email && m.email.toLowerCase() === user.email.toLowerCase()) ||
+      members.find((m) => m.name.toLowerCase() === user.name.toLowerCase()) ||
+      null
+    : null
+
+  return (
+    <MembersContext.Provider
+      value={{
+        members,
+        activeMembers: members.filter((m) => m.active),
+        currentMember,
+        getMember,
+        refreshMembers,
+      }}
+    >
+      {children}
+    </MembersContext.Provider>
+  )
+}
+
+export function useMembers() {
+  const context = useContext(MembersContext)
+  if (context === undefined) {
+    throw new Error('useMembers must be used within a MembersProvider')
+  }
+  return context
+}
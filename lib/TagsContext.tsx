@@ -0,0 +1,61 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react'
+import { supabase } from './supabase'
+import { useAuth } from './AuthContext'
+import { fetchTags } from './tags'
+import { Tag } from './types'
+
+interface TagsContextType {
+  tags: Tag[]
+  getTag: (id: string) => Tag | undefined
+  refreshTags: () => Promise<void>
+}
+
+const TagsContext = createContext<TagsContextType | undefined>(undefined)
+
+export function TagsProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth()
+  const [tags, setTags] = useState<Tag[]>([])
+
+  const refreshTags = useCallback(async () => {
+    setTags(await fetchTags())
+  }, [])
+
+  useEffect(() => {
+    if (!user) return
+
+    fetchTags().then(setTags)
+
+    const channel = supabase
+      .channel('tags-channel')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'tags' },
+        () => {
+          refreshTags()
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [user, refreshTags])
+
+  const getTag = (id: string) => tags.find((t) => t.id === id)
+
+  return (
+    <TagsContext.Provider value={{ tags, getTag, refreshTags }}>
+      {children}
+    </TagsContext.Provider>
+  )
+}
+
+export function useTags() {
+  const context = useContext(TagsContext)
+  if (context === undefined) {
+    throw new Error('useTags must be used within a TagsProvider')
+  }
+  return context
+}
@@ -1,5 +1,7 @@
+import { addDays, parseISO } from 'date-fns'
 import { supabase } from './supabase'
-import { ActivityLog, ActivityAction } from './types'
+import { FieldChange, formatFieldChange } from './fieldChanges'
+import { ActivityLog, ActivityAction, BoardColumn } from './types'
 
 export async function logActivity(
   taskId: string,
@@ -35,33 +37,149 @@ export async function getTaskActivity(taskId: string): Promise<ActivityLog[]> {
   return data || []
 }
 
+export const ACTIVITY_PAGE_SIZE = 30
+
+// For the board feed's action filter
+export const ACTIVITY_ACTION_LABELS: Record<ActivityAction, string> = {
+  created: 'Criadas',
+  updated: 'Editadas',
+  moved: 'Movidas',
+  completed: 'Concluídas',
+  deleted: 'Eliminadas',
+  checked: 'Checklist',
+  undone: 'Desfeitas',
+  redone: 'Refeitas',
+  restored: 'Restauradas',
+}
+
+export interface ActivityFilters {
+  userName: string | null
+  actions: ActivityAction[]
+  // Inclusive days, yyyy-MM-dd in local time
+  from: string | null
+  to: string | null
+}
+
+export const NO_ACTIVITY_FILTERS: ActivityFilters = { userName: null, actions: [], from: null, to: null }
+
+function dateRange(filters: ActivityFilters) {
+  return {
+    from: filters.from ? parseISO(filters.from).toISOString() : null,
+    until: filters.to ? addDays(parseISO(filters.to), 1).toISOString() : null,
+  }
+}
+
+// One page of the board feed, newest first. Pass the last entry of the previous page as
+// `after` to get the next one; ties on created_at are broken by id so nothing is skipped.
+export async function getBoardActivity(
+  boardId: string,
+  filters: ActivityFilters,
+  after?: ActivityLog
+): Promise<ActivityLog[]> {
+  let query = supabase
+    .from('activity_log')
+    .select('*')
+    .eq('board_id', boardId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(ACTIVITY_PAGE_SIZE)
+
+  const { from, until } = dateRange(filters)
+  if (filters.userName) query = query.eq('user_name', filters.userName)
+  if (filters.actions.length > 0) query = query.in('action', filters.actions)
+  if (from) query = query.gte('created_at', from)
+  if (until) query = query.lt('created_at', until)
+  if (after) {
+    query = query.or(`created_at.lt."${after.created_at}",and(created_at.eq."${after.created_at}",id.lt.${after.id})`)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching board activity:', error)
+    return []
+  }
+
+  return data || []
+}
+
+// Same filters as getBoardActivity, for entries that arrive live
+export function matchesActivityFilters(activity: ActivityLog, filters: ActivityFilters): boolean {
+  const { from, until } = dateRange(filters)
+  const at = Date.parse(activity.created_at)
+  return (
+    (!filters.userName || activity.user_name === filters.userName) &&
+    (filters.actions.length === 0 || filters.actions.includes(activity.action)) &&
+    (!from || at >= Date.parse(from)) &&
+    (!until || at < Date.parse(until))
+  )
+}
+
+export function subscribeBoardActivity(boardId: string, listener: (activity: ActivityLog) => void): () => void {
+  const channel = supabase
+    .channel(`activity-channel-${boardId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'activity_log', filter: `board_id=eq.${boardId}` },
+      (payload) => {
+        listener(payload.new as ActivityLog)
+      }
+    )
+    .subscribe()
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
+
+// Current column title, falling back to the title recorded when the move happened
+function columnLabel(columns: BoardColumn[], id: unknown, recordedTitle: unknown): string {
+  const column = columns.find((col) => col.id === id)
+  return column?.title || (recordedTitle as string | undefined) || String(id)
+}
+
 // Helper to format activity message in Portuguese
-export function formatActivityMessage(activity: ActivityLog): string {
+export function formatActivityMessage(activity: ActivityLog, columns: BoardColumn[] = []): string {
   const { action, user_name, details } = activity
   
   switch (action) {
     case 'created':
       return `${user_name} criou esta tarefa`
     case 'updated':
+      if (details?.fields) {
+        const fields = details.fields as FieldChange[]
+        return `${user_name} editou ${fields.map(formatFieldChange).join('; ')}`
+      }
+      // Older entries only list the field names
       if (details?.changes) {
         const changes = details.changes as string[]
         return `${user_name} editou: ${changes.join(', ')}`
       }
       return `${user_name} editou esta tarefa`
     case 'moved':
+      if (details?.to_board) {
+        return `${user_name} moveu do quadro "${details.from_board_name}" para "${details.to_board_name}"`
+      }
       if (details?.from && details?.to) {
-        const statusLabels: Record<string, string> = {
-          todo: 'A Fazer',
-          in_progress: 'Em Progresso',
-          done: 'Concluído',
-        }
-        return `${user_name} moveu de "${statusLabels[details.from as string]}" para "${statusLabels[details.to as string]}"`
+        const from = columnLabel(columns, details.from, details.from_title)
+        const to = columnLabel(columns, details.to, details.to_title)
+        return `${user_name} moveu de "${from}" para "${to}"`
       }
       return `${user_name} moveu esta tarefa`
     case 'completed':
       return `${user_name} concluiu esta tarefa 🎉`
     case 'deleted':
       return `${user_name} eliminou esta tarefa`
+    case 'checked':
+      return details?.done
+        ? `${user_name} marcou "${details.item}"`
+        : `${user_name} desmarcou "${details?.item}"`
+    case 'undone':
+      return `${user_name} desfez: ${details?.action}`
+    case 'redone':
+      return `${user_name} refez: ${details?.action}`
+    case 'restored':
+      return `${user_name} restaurou esta tarefa do lixo`
     default:
       return `${user_name} fez uma ação`
   }
@@ -80,6 +198,14 @@ export function getActivityIcon(action: ActivityAction): string {
       return '✅'
     case 'deleted':
       return '🗑️'
+    case 'checked':
+      return '☑️'
+    case 'undone':
+      return '↩️'
+    case 'redone':
+      return '↪️'
+    case 'restored':
+      return '♻️'
     default:
       return '•'
   }
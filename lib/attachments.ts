@@ -0,0 +1,100 @@
+import { supabase } from './supabase'
+import { storageBackend } from './storage'
+import { TaskAttachment } from './types'
+
+export function isImageAttachment(attachment: Pick<TaskAttachment, 'mime_type'>): boolean {
+  return attachment.mime_type.startsWith('image/')
+}
+
+export function getAttachmentUrl(path: string): string {
+  return storageBackend.getUrl(path)
+}
+
+export async function fetchAttachments(taskId: string): Promise<TaskAttachment[]> {
+  const { data, error } = await supabase
+    .from('task_attachments')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching attachments:', error)
+    return []
+  }
+
+  return data || []
+}
+
+// Store the file under the task's folder, then record it
+export async function uploadAttachment(
+  taskId: string,
+  file: File,
+  uploadedBy: string
+): Promise<TaskAttachment | null> {
+  const safeName = file.name.replace(/[^\w.-]+/g, '_')
+  const path = `${taskId}/${Date.now()}-${safeName}`
+
+  const { error: uploadError } = await storageBackend.upload(path, file)
+  if (uploadError) {
+    console.error('Error uploading attachment:', uploadError)
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from('task_attachments')
+    .insert({
+      task_id: taskId,
+      name: file.name,
+      path,
+      mime_type: file.type || 'application/octet-stream',
+      size: file.size,
+      uploaded_by: uploadedBy,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error saving attachment:', error)
+    await storageBackend.remove([path])
+    return null
+  }
+
+  return data
+}
+
+export async function deleteAttachment(attachment: TaskAttachment): Promise<boolean> {
+  const { error } = await supabase.from('task_attachments').delete().eq('id', attachment.id)
+
+  if (error) {
+    console.error('Error deleting attachment:', error)
+    return false
+  }
+
+  await storageBackend.remove([attachment.path])
+  return true
+}
+
+// Rows go with the task (on delete cascade) but the stored files do not:
+// collect the paths before deleting the task, remove the files once it is gone
+export async function getTaskAttachmentPaths(taskId: string): Promise<string[]> {
+  const attachments = await fetchAttachments(taskId)
+  return attachments.map((a) => a.path)
+}
+
+export async function removeAttachmentFiles(paths: string[]): Promise<void> {
+  await storageBackend.remove(paths)
+}
+
+export async function setTaskCover(taskId: string, path: string | null): Promise<boolean> {
+  const { error } = await supabase
+    .from('tasks')
+    .update({ cover_path: path, updated_at: new Date().toISOString() })
+    .eq('id', taskId)
+
+  if (error) {
+    console.error('Error updating cover:', error)
+    return false
+  }
+
+  return true
+}
@@ -0,0 +1,128 @@
+import { User } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+
+export interface AuthUser {
+  id: string
+  email: string
+  name: string
+}
+
+export interface AuthBackend {
+  getUser: () => Promise<AuthUser | null>
+  signInWithPassword: (email: string, password: string) => Promise<{ error: string | null }>
+  signInWithMagicLink: (email: string) => Promise<{ error: string | null }>
+  signOut: () => Promise<void>
+  onChange: (callback: (user: AuthUser | null) => void) => () => void
+}
+
+// Set NEXT_PUBLIC_AUTH_MODE=local to sign in without Supabase Auth (testing only)
+export const isLocalAuth = process.env.NEXT_PUBLIC_AUTH_MODE === 'local'
+
+// Derive a display name from the email when no name is set in the profile
+function nameFromEmail(email: string): string {
+  const local = email.split('@')[0] || email
+  return local.charAt(0).toUpperCase() + local.slice(1)
+}
+
+function toAuthUser(user: User): AuthUser {
+  const email = user.email || ''
+  const metadataName = user.user_metadata?.name as string | undefined
+  return {
+    id: user.id,
+    email,
+    name: metadataName || nameFromEmail(email),
+  }
+}
+
+const supabaseAuth: AuthBackend = {
+  async getUser() {
+    const { data, error } = await supabase.auth.getSession()
+    if (error) {
+      console.error('Error fetching session:', error)
+      return null
+    }
+    return data.session ? toAuthUser(data.session.user) : null
+  },
+
+  async signInWithPassword(email, password) {
+    const { error } = await supabase.auth.signInWithPassword({ email, password })
+    return { error: error ? error.message : null }
+  },
+
+  async signInWithMagicLink(email) {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: window.location.origin },
+    })
+    return { error: error ? error.message : null }
+  },
+
+  async signOut() {
+    const { error } = await supabase.auth.signOut()
+    if (error) {
+      console.error('Error signing out:', error)
+    }
+  },
+
+  onChange(callback) {
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      callback(session ? toAuthUser(session.user) : null)
+    })
+    return () => data.subscription.unsubscribe()
+  },
+}
+
+// Local stand-in: any email/password pair signs in, session kept in localStorage
+const LOCAL_SESSION_KEY = 'kanban-local-session'
+const localListeners = new Set<(user: AuthUser | null) => void>()
+
+function setLocalUser(user: AuthUser | null) {
+  if (user) {
+    localStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify(user))
+  } else {
+    localStorage.removeItem(LOCAL_SESSION_KEY)
+  }
+  localListeners.forEach((listener) => listener(user))
+}
+
+function signInLocally(email: string) {
+  const normalized = email.trim().toLowerCase()
+  setLocalUser({
+    id: `local-${normalized}`,
+    email: normalized,
+    name: nameFromEmail(normalized),
+  })
+}
+
+const localAuth: AuthBackend = {
+  async getUser() {
+    const saved = localStorage.getItem(LOCAL_SESSION_KEY)
+    return saved ? (JSON.parse(saved) as AuthUser) : null
+  },
+
+  async signInWithPassword(email, password) {
+    if (!password) {
+      return { error: 'Palavra-passe obrigatória' }
+    }
+    signInLocally(email)
+    return { error: null }
+  },
+
+  async signInWithMagicLink(email) {
+    signInLocally(email)
+    return { error: null }
+  },
+
+  async signOut() {
+    setLocalUser(null)
+  },
+
+  onChange(callback) {
+    localListeners.add(callback)
+    return () => {
+      localListeners.delete(callback)
+    }
+  },
+}
+
+export const authBackend: AuthBackend = isLocalAuth ? localAuth : supabaseAuth
@@ -0,0 +1,152 @@
+import { supabase } from './supabase'
+import { rankBetween } from './rank'
+import { readSnapshot, saveSnapshot } from './offline'
+import { fetchColumns, getFirstOpenColumn } from './columns'
+import { KanbanBoard } from './types'
+
+export interface BoardInput {
+  name: string
+  member_ids: string[]
+}
+
+// Columns every new board starts with
+const DEFAULT_COLUMNS = [
+  { title: 'A Fazer', color: 'slate', position: 0, is_done: false },
+  { title: 'Em Progresso', color: 'indigo', position: 1, is_done: false },
+  { title: 'Concluído', color: 'green', position: 2, is_done: true },
+]
+
+export async function fetchBoards(): Promise<KanbanBoard[]> {
+  const { data, error } = await supabase
+    .from('boards')
+    .select('*, board_members(member_id)')
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching boards:', error)
+    return (await readSnapshot<KanbanBoard[]>('boards')) ?? []
+  }
+
+  const boards = (data || []).map(({ board_members, ...board }) => ({
+    ...board,
+    member_ids: (board_members as { member_id: string }[]).map((bm) => bm.member_id),
+  }))
+  saveSnapshot('boards', boards)
+  return boards
+}
+
+async function setBoardMembers(boardId: string, memberIds: string[]): Promise<boolean> {
+  const { error: deleteError } = await supabase
+    .from('board_members')
+    .delete()
+    .eq('board_id', boardId)
+
+  if (deleteError) {
+    console.error('Error updating board members:', deleteError)
+    return false
+  }
+
+  if (memberIds.length === 0) return true
+
+  const { error } = await supabase
+    .from('board_members')
+    .insert(memberIds.map((member_id) => ({ board_id: boardId, member_id })))
+
+  if (error) {
+    console.error('Error updating board members:', error)
+    return false
+  }
+
+  return true
+}
+
+export async function createBoard(input: BoardInput): Promise<KanbanBoard | null> {
+  const { data, error } = await supabase
+    .from('boards')
+    .insert({ name: input.name })
+    .select()
+    .single()
+
+  if (error || !data) {
+    console.error('Error creating board:', error)
+    return null
+  }
+
+  const { error: columnsError } = await supabase
+    .from('board_columns')
+    .insert(DEFAULT_COLUMNS.map((col) => ({ ...col, board_id: data.id })))
+
+  if (columnsError) {
+    console.error('Error creating board columns:', columnsError)
+  }
+
+  await setBoardMembers(data.id, input.member_ids)
+
+  return { ...data, member_ids: input.member_ids }
+}
+
+export async function updateBoard(id: string, input: BoardInput): Promise<boolean> {
+  const { error } = await supabase.from('boards').update({ name: input.name }).eq('id', id)
+
+  if (error) {
+    console.error('Error updating board:', error)
+    return false
+  }
+
+  return setBoardMembers(id, input.member_ids)
+}
+
+// Move a task to another board, keeping its id (and therefore its activity history).
+// It lands at the end of a matching column: a done column if it was done, else the first open one.
+// Its dependency links are removed: blockers are only looked up on the task's own board, so a
+// link to the board it left would no longer hold it back.
+export async function moveTaskToBoard(
+  taskId: string,
+  targetBoardId: string,
+  wasDone: boolean
+): Promise<boolean> {
+  const targetColumns = await fetchColumns(targetBoardId)
+  const targetColumn = wasDone
+    ? targetColumns.find((col) => col.is_done) || getFirstOpenColumn(targetColumns)
+    : getFirstOpenColumn(targetColumns)
+
+  if (!targetColumn) {
+    console.error('Error moving task: target board has no columns')
+    return false
+  }
+
+  const { data: lastTask } = await supabase
+    .from('tasks')
+    .select('rank')
+    .eq('board_id', targetBoardId)
+    .eq('status', targetColumn.id)
+    .order('rank', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const { error } = await supabase
+    .from('tasks')
+    .update({
+      board_id: targetBoardId,
+      status: targetColumn.id,
+      rank: rankBetween(lastTask?.rank ?? null, null),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', taskId)
+
+  if (error) {
+    console.error('Error moving task to board:', error)
+    return false
+  }
+
+  const { error: dependencyError } = await supabase
+    .from('task_dependencies')
+    .delete()
+    .or(`task_id.eq.${taskId},blocked_by_id.eq.${taskId}`)
+
+  if (dependencyError) {
+    console.error('Error removing dependencies of moved task:', dependencyError)
+  }
+
+  return true
+}
@@ -0,0 +1,86 @@
+import { supabase } from './supabase'
+import { ChecklistItem } from './types'
+
+export async function fetchChecklist(taskId: string): Promise<ChecklistItem[]> {
+  const { data, error } = await supabase
+    .from('checklist_items')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('position', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching checklist:', error)
+    return []
+  }
+
+  return data || []
+}
+
+export async function addChecklistItem(
+  taskId: string,
+  title: string,
+  position: number
+): Promise<ChecklistItem | null> {
+  const { data, error } = await supabase
+    .from('checklist_items')
+    .insert({ task_id: taskId, title, position })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error adding checklist item:', error)
+    return null
+  }
+
+  return data
+}
+
+export async function updateChecklistItem(
+  id: string,
+  updates: Partial<Pick<ChecklistItem, 'title' | 'done' | 'position'>>
+): Promise<boolean> {
+  const { error } = await supabase.from('checklist_items').update(updates).eq('id', id)
+
+  if (error) {
+    console.error('Error updating checklist item:', error)
+    return false
+  }
+
+  return true
+}
+
+export async function deleteChecklistItem(id: string): Promise<boolean> {
+  const { error } = await supabase.from('checklist_items').delete().eq('id', id)
+
+  if (error) {
+    console.error('Error deleting checklist item:', error)
+    return false
+  }
+
+  return true
+}
+
+// Persist a new item order (ids in display order)
+export async function reorderChecklist(orderedIds: string[]): Promise<boolean> {
+  for (const [position, id] of orderedIds.entries()) {
+    const ok = await updateChecklistItem(id, { position })
+    if (!ok) return false
+  }
+
+  return true
+}
+
+// Whether the task moves to a done column when its last item is ticked
+export async function setChecklistAutoComplete(taskId: string, enabled: boolean): Promise<boolean> {
+  const { error } = await supabase
+    .from('tasks')
+    .update({ checklist_auto_complete: enabled, updated_at: new Date().toISOString() })
+    .eq('id', taskId)
+
+  if (error) {
+    console.error('Error updating checklist setting:', error)
+    return false
+  }
+
+  return true
+}
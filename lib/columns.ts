@@ -0,0 +1,105 @@
+import { supabase } from './supabase'
+import { readSnapshot, saveSnapshot } from './offline'
+import { BoardColumn, ColorId, TaskStatus } from './types'
+
+export interface ColumnInput {
+  title: string
+  color?: ColorId
+  is_done?: boolean
+}
+
+export async function fetchColumns(boardId: string): Promise<BoardColumn[]> {
+  const { data, error } = await supabase
+    .from('board_columns')
+    .select('*')
+    .eq('board_id', boardId)
+    .order('position', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching columns:', error)
+    return (await readSnapshot<BoardColumn[]>(`columns:${boardId}`)) ?? []
+  }
+
+  saveSnapshot(`columns:${boardId}`, data || [])
+  return data || []
+}
+
+export async function createColumn(
+  boardId: string,
+  input: ColumnInput,
+  position: number
+): Promise<BoardColumn | null> {
+  const { data, error } = await supabase
+    .from('board_columns')
+    .insert({
+      board_id: boardId,
+      title: input.title,
+      color: input.color || 'slate',
+      is_done: input.is_done || false,
+      position,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating column:', error)
+    return null
+  }
+
+  return data
+}
+
+export async function updateColumn(id: string, updates: Partial<ColumnInput>): Promise<boolean> {
+  const { error } = await supabase.from('board_columns').update(updates).eq('id', id)
+
+  if (error) {
+    console.error('Error updating column:', error)
+    return false
+  }
+
+  return true
+}
+
+// Persist a new column order (ids in display order)
+export async function reorderColumns(orderedIds: string[]): Promise<boolean> {
+  for (const [position, id] of orderedIds.entries()) {
+    const { error } = await supabase.from('board_columns').update({ position }).eq('id', id)
+    if (error) {
+      console.error('Error reordering columns:', error)
+      return false
+    }
+  }
+
+  return true
+}
+
+// Delete a column after moving its tasks into another one
+export async function deleteColumn(id: string, moveTasksTo: string): Promise<boolean> {
+  const { error: moveError } = await supabase
+    .from('tasks')
+    .update({ status: moveTasksTo, updated_at: new Date().toISOString() })
+    .eq('status', id)
+
+  if (moveError) {
+    console.error('Error moving tasks out of column:', moveError)
+    return false
+  }
+
+  const { error } = await supabase.from('board_columns').delete().eq('id', id)
+
+  if (error) {
+    console.error('Error deleting column:', error)
+    return false
+  }
+
+  return true
+}
+
+export function isDoneStatus(columns: BoardColumn[], status: TaskStatus): boolean {
+  return columns.some((col) => col.id === status && col.is_done)
+}
+
+// Column new and recurring tasks land in: first column that is not a done column
+export function getFirstOpenColumn(columns: BoardColumn[]): BoardColumn | undefined {
+  return columns.find((col) => !col.is_done) || columns[0]
+}
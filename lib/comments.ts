@@ -0,0 +1,61 @@
+import { supabase } from './supabase'
+import { TaskComment } from './types'
+
+export async function fetchComments(taskId: string): Promise<TaskComment[]> {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching comments:', error)
+    return []
+  }
+
+  return data || []
+}
+
+export async function addComment(
+  taskId: string,
+  author: { name: string; email: string | null },
+  body: string
+): Promise<TaskComment | null> {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .insert({ task_id: taskId, author_name: author.name, author_email: author.email, body })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error adding comment:', error)
+    return null
+  }
+
+  return data
+}
+
+export async function updateComment(id: string, body: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('task_comments')
+    .update({ body, updated_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error updating comment:', error)
+    return false
+  }
+
+  return true
+}
+
+export async function deleteComment(id: string): Promise<boolean> {
+  const { error } = await supabase.from('task_comments').delete().eq('id', id)
+
+  if (error) {
+    console.error('Error deleting comment:', error)
+    return false
+  }
+
+  return true
+}
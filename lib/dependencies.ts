@@ -0,0 +1,74 @@
+import { supabase } from './supabase'
+import { TaskDependency } from './types'
+
+// All links across boards: cycles can only be checked against the whole graph
+export async function fetchDependencies(): Promise<TaskDependency[]> {
+  const { data, error } = await supabase
+    .from('task_dependencies')
+    .select('*')
+
+  if (error) {
+    console.error('Error fetching dependencies:', error)
+    return []
+  }
+
+  return data || []
+}
+
+// True when blockedById already depends (directly or not) on taskId
+export function wouldCreateCycle(
+  dependencies: TaskDependency[],
+  taskId: string,
+  blockedById: string
+): boolean {
+  const seen = new Set<string>()
+  const pending = [blockedById]
+
+  while (pending.length > 0) {
+    const current = pending.pop()!
+    if (current === taskId) return true
+    if (seen.has(current)) continue
+    seen.add(current)
+
+    for (const dep of dependencies) {
+      if (dep.task_id === current) pending.push(dep.blocked_by_id)
+    }
+  }
+
+  return false
+}
+
+export async function addDependency(
+  taskId: string,
+  blockedById: string
+): Promise<{ error: string | null }> {
+  const { error } = await supabase
+    .from('task_dependencies')
+    .insert({ task_id: taskId, blocked_by_id: blockedById })
+
+  if (error) {
+    console.error('Error adding dependency:', error)
+    // Raised by the check_task_dependency_cycle trigger
+    if (error.message.includes('circular')) {
+      return { error: 'Dependência circular' }
+    }
+    return { error: 'Erro ao adicionar dependência' }
+  }
+
+  return { error: null }
+}
+
+export async function removeDependency(taskId: string, blockedById: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('task_dependencies')
+    .delete()
+    .eq('task_id', taskId)
+    .eq('blocked_by_id', blockedById)
+
+  if (error) {
+    console.error('Error removing dependency:', error)
+    return false
+  }
+
+  return true
+}
@@ -0,0 +1,102 @@
+import { endOfDay, format, isToday, parseISO, startOfDay } from 'date-fns'
+import { pt } from 'date-fns/locale'
+import { Task } from './types'
+
+// A due date is a calendar day (yyyy-MM-dd). A due time is a wall-clock time (HH:mm) in the
+// task's own time zone, so "09:00 in Lisbon" stays 09:00 there across daylight-saving changes
+// and is shown at the matching local time everywhere else.
+
+export type Due = Pick<Task, 'due_date' | 'due_time' | 'due_timezone'>
+
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+// Midnight of the due day in local time; new Date('yyyy-MM-dd') would be UTC midnight instead
+export function parseDueDate(dueDate: string): Date {
+  return parseISO(dueDate.slice(0, 10))
+}
+
+// Local midnight of the calendar day `instant` falls on in `timeZone`
+export function dayInTimeZone(instant: Date, timeZone: string): Date {
+  // en-CA formats dates as yyyy-MM-dd
+  return parseDueDate(new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant))
+}
+
+// Milliseconds `timeZone` is ahead of UTC at `instant`
+function zoneOffset(instant: Date, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, Number(part.value)])
+  )
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000
+}
+
+// The instant a wall-clock date and time happen in `timeZone`
+export function zonedTimeToDate(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number)
+  const [hours, minutes] = time.split(':').map(Number)
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes)
+
+  // The offset can differ on either side of a daylight-saving change, so check it again
+  const firstGuess = asUtc - zoneOffset(new Date(asUtc), timeZone)
+  return new Date(asUtc - zoneOffset(new Date(firstGuess), timeZone))
+}
+
+// When the task is due, in local time: the exact moment with a due time, else the start of the day
+export function dueMoment(task: Due): Date | null {
+  if (!task.due_date) return null
+  if (!task.due_time) return parseDueDate(task.due_date)
+  return zonedTimeToDate(task.due_date, task.due_time, task.due_timezone || localTimeZone())
+}
+
+// Past the due time, or past the due day for tasks without one
+export function isOverdue(task: Due, now: Date = new Date()): boolean {
+  const due = dueMoment(task)
+  if (!due) return false
+  return task.due_time ? due < now : endOfDay(due) < now
+}
+
+// Whether a change moves the due date, time or zone (reminders must then be rescheduled)
+export function isDueChanged(before: Due, after: Due): boolean {
+  return (
+    (before.due_date || null) !== (after.due_date || null) ||
+    (before.due_time || null) !== (after.due_time || null) ||
+    (before.due_timezone || null) !== (after.due_timezone || null)
+  )
+}
+
+export function isDueToday(task: Due): boolean {
+  const due = dueMoment(task)
+  return !!due && isToday(due)
+}
+
+// Local calendar day the task is due, as yyyy-MM-dd (for grouping by day)
+export function dueDayKey(task: Due): string | null {
+  const due = dueMoment(task)
+  return due && format(startOfDay(due), 'yyyy-MM-dd')
+}
+
+// e.g. "3 mar" or "3 mar, 14:30"
+export function formatDue(task: Due): string {
+  const due = dueMoment(task)
+  if (!due) return ''
+  return format(due, task.due_time ? 'd MMM, HH:mm' : 'd MMM', { locale: pt })
+}
+
+// e.g. "14:30" in local time
+export function formatDueTime(task: Due): string | null {
+  const due = dueMoment(task)
+  return due && task.due_time ? format(due, 'HH:mm') : null
+}
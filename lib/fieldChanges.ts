@@ -0,0 +1,172 @@
+import { format } from 'date-fns'
+import { pt } from 'date-fns/locale'
+import { describeRecurrence } from './recurrence'
+import { localTimeZone, parseDueDate } from './dueDates'
+import { Member, PRIORITIES, Recurrence, Tag, Task } from './types'
+
+// Task fields whose edits are logged value by value
+export type TrackedField =
+  | 'title'
+  | 'description'
+  | 'priority'
+  | 'assignee'
+  | 'due_date'
+  | 'due_time'
+  | 'recurrence'
+  | 'tags'
+  // Kept on the task's series, not on the task itself
+  | 'skipped_dates'
+
+// One edited field in an 'updated' activity entry (details.fields)
+export interface FieldChange {
+  field: TrackedField
+  from: unknown
+  to: unknown
+  // Readable values as they were at the time; members and tags can be renamed later
+  from_label: string
+  to_label: string
+  // Due date and time changes: the time zone the due time was read in, before and after
+  from_timezone?: string | null
+  to_timezone?: string | null
+}
+
+export const FIELD_LABELS: Record<TrackedField, string> = {
+  title: 'título',
+  description: 'descrição',
+  priority: 'prioridade',
+  assignee: 'responsável',
+  due_date: 'data limite',
+  due_time: 'hora limite',
+  recurrence: 'repetição',
+  tags: 'etiquetas',
+  skipped_dates: 'datas saltadas',
+}
+
+const TRACKED_FIELDS = Object.keys(FIELD_LABELS) as TrackedField[]
+
+const EMPTY_LABEL = '—'
+
+export interface FieldLabelContext {
+  members: Member[]
+  tags: Tag[]
+}
+
+function valueLabel(field: TrackedField, value: unknown, context: FieldLabelContext): string {
+  if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return EMPTY_LABEL
+  }
+
+  switch (field) {
+    case 'priority':
+      return PRIORITIES.find((p) => p.id === value)?.label ?? String(value)
+    case 'assignee':
+      return context.members.find((m) => m.id === value)?.name ?? String(value)
+    case 'due_date':
+      return format(parseDueDate(value as string), 'd MMM yyyy', { locale: pt })
+    case 'recurrence':
+      return describeRecurrence(value as NonNullable<Recurrence>)
+    case 'tags':
+      return (value as string[]).map((id) => context.tags.find((t) => t.id === id)?.label ?? id).join(', ')
+    case 'skipped_dates':
+      return (value as string[]).map((date) => format(parseDueDate(date), 'd MMM', { locale: pt })).join(', ')
+    default:
+      return String(value)
+  }
+}
+
+// Empty strings, nulls and missing tag lists count as the same "no value"
+function normalize(field: TrackedField, value: unknown): unknown {
+  if (field === 'tags' || field === 'skipped_dates') return value || []
+  return value || null
+}
+
+const DUE_FIELDS: TrackedField[] = ['due_date', 'due_time']
+
+type TrackedValues = Pick<Task, Exclude<TrackedField, 'skipped_dates'> | 'due_timezone'> & { skipped_dates: string[] }
+
+// The tracked fields that differ between `before` and `after`
+export function diffTaskFields(
+  before: Task & Partial<Pick<TrackedValues, 'skipped_dates'>>,
+  after: Partial<TrackedValues>,
+  context: FieldLabelContext
+): FieldChange[] {
+  return TRACKED_FIELDS.filter((field) => field in after)
+    .map((field) => ({ field, from: normalize(field, before[field]), to: normalize(field, after[field]) }))
+    .filter(({ from, to }) => JSON.stringify(from) !== JSON.stringify(to))
+    .map(({ field, from, to }) => ({
+      field,
+      from,
+      to,
+      from_label: valueLabel(field, from, context),
+      to_label: valueLabel(field, to, context),
+      ...(DUE_FIELDS.includes(field) && {
+        from_timezone: before.due_timezone,
+        to_timezone: 'due_timezone' in after ? (after.due_timezone ?? null) : before.due_timezone,
+      }),
+    }))
+}
+
+// What putting back the old value of `change` writes. A due time only means something with
+// its time zone, so the zone is restored with the time (and with the date of a timed task).
+// Skipped dates are written to the series instead (see setSkippedDates).
+export function revertFieldChanges(change: FieldChange, task: Task): Partial<Task> {
+  const previousZone = change.from_timezone ?? task.due_timezone ?? localTimeZone()
+
+  switch (change.field) {
+    case 'due_time':
+      return { due_time: change.from as string | null, due_timezone: change.from ? previousZone : null }
+    case 'due_date':
+      return task.due_time
+        ? { due_date: change.from as string | null, due_timezone: previousZone }
+        : { due_date: change.from as string | null }
+    default:
+      return { [change.field]: change.from }
+  }
+}
+
+// e.g. "prioridade: Média → Alta"; descriptions are shown as a text diff instead
+export function formatFieldChange(change: FieldChange): string {
+  const label = FIELD_LABELS[change.field]
+  if (change.field === 'description') return label
+  return `${label}: ${change.from_label} → ${change.to_label}`
+}
+
+export type TextDiffPart = { type: 'same' | 'added' | 'removed'; text: string }
+
+// Word-level diff (longest common subsequence), for descriptions
+export function diffText(before: string, after: string): TextDiffPart[] {
+  const a = before.split(/(\s+)/)
+  const b = after.split(/(\s+)/)
+
+  // lengths[i][j] = common subsequence length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const parts: TextDiffPart[] = []
+  const push = (type: TextDiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1]
+    if (last?.type === type) last.text += text
+    else parts.push({ type, text })
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i++])
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++])
+    } else {
+      push('added', b[j++])
+    }
+  }
+  while (i < a.length) push('removed', a[i++])
+  while (j < b.length) push('added', b[j++])
+
+  return parts.filter((p) => p.text)
+}
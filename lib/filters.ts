@@ -0,0 +1,85 @@
+import { addWeeks, endOfDay, endOfWeek, isBefore, isWithinInterval, parseISO, startOfDay, startOfWeek } from 'date-fns'
+import { dueMoment, isDueToday, isOverdue } from './dueDates'
+import { DueFilter, Task, TaskFilter } from './types'
+
+export const EMPTY_FILTER: TaskFilter = {
+  search: '',
+  assignees: [],
+  tags: [],
+  priorities: [],
+  recurrences: [],
+  due: 'any',
+  due_from: null,
+  due_to: null,
+}
+
+export const DUE_FILTERS: { id: DueFilter; label: string }[] = [
+  { id: 'any', label: 'Qualquer prazo' },
+  { id: 'overdue', label: 'Atrasadas' },
+  { id: 'today', label: 'Hoje' },
+  { id: 'this_week', label: 'Esta semana' },
+  { id: 'next_week', label: 'Próxima semana' },
+  { id: 'no_date', label: 'Sem data' },
+  { id: 'range', label: 'Intervalo...' },
+]
+
+// Saved views may predate newer filter fields
+export function normalizeFilter(filter: Partial<TaskFilter>): TaskFilter {
+  return { ...EMPTY_FILTER, ...filter }
+}
+
+// Number of filter groups in use (search counts as one)
+export function countActiveFilters(filter: TaskFilter): number {
+  return [
+    filter.search.trim() !== '',
+    filter.assignees.length > 0,
+    filter.tags.length > 0,
+    filter.priorities.length > 0,
+    filter.recurrences.length > 0,
+    filter.due !== 'any',
+  ].filter(Boolean).length
+}
+
+function matchesDue(task: Task, filter: TaskFilter, isDone: boolean): boolean {
+  if (filter.due === 'any') return true
+  if (filter.due === 'no_date') return !task.due_date
+  if (!task.due_date) return false
+
+  const due = dueMoment(task)!
+  const now = new Date()
+  const week = { weekStartsOn: 1 } as const
+
+  switch (filter.due) {
+    case 'overdue':
+      return !isDone && isOverdue(task, now)
+    case 'today':
+      return isDueToday(task)
+    case 'this_week':
+      return isWithinInterval(due, { start: startOfWeek(now, week), end: endOfWeek(now, week) })
+    case 'next_week': {
+      const next = addWeeks(now, 1)
+      return isWithinInterval(due, { start: startOfWeek(next, week), end: endOfWeek(next, week) })
+    }
+    case 'range': {
+      if (filter.due_from && isBefore(due, startOfDay(parseISO(filter.due_from)))) return false
+      if (filter.due_to && isBefore(endOfDay(parseISO(filter.due_to)), due)) return false
+      return true
+    }
+  }
+}
+
+// Every group must match; within a group any selected value matches
+export function matchesFilter(task: Task, filter: TaskFilter, isDone: boolean): boolean {
+  const search = filter.search.trim().toLowerCase()
+  if (search) {
+    const haystack = `${task.title} ${task.description || ''}`.toLowerCase()
+    if (!haystack.includes(search)) return false
+  }
+
+  if (filter.assignees.length > 0 && !filter.assignees.includes(task.assignee)) return false
+  if (filter.tags.length > 0 && !filter.tags.some((tag) => task.tags?.includes(tag))) return false
+  if (filter.priorities.length > 0 && !filter.priorities.includes(task.priority)) return false
+  if (filter.recurrences.length > 0 && !filter.recurrences.includes(task.recurrence?.frequency ?? 'none')) return false
+
+  return matchesDue(task, filter, isDone)
+}
@@ -0,0 +1,139 @@
+import { logActivity } from './activity'
+import { NewTask, TaskChanges, TaskError, taskRepository } from './tasks'
+import { restoreTask, trashTask } from './trash'
+import { isDueChanged } from './dueDates'
+import { rescheduleTaskReminders } from './reminders'
+import { Task } from './types'
+
+// One task before and after an action: before = null for a created task, after = null for a
+// removed one. Undoing a create moves the task to the trash, so redo brings back the same task.
+export interface TaskSnapshotChange {
+  before: Task | null
+  after: Task | null
+}
+
+// One undoable action; bulk actions and reorders hold several tasks
+export interface HistoryEntry {
+  // Shown in the activity log, e.g. 'eliminar "Comprar pão"'
+  label: string
+  changes: TaskSnapshotChange[]
+}
+
+type Direction = 'undo' | 'redo'
+
+const HISTORY_LIMIT = 50
+
+// What undo puts back on an existing task
+function editableFields(task: Task): TaskChanges {
+  return {
+    board_id: task.board_id,
+    title: task.title,
+    description: task.description,
+    status: task.status,
+    priority: task.priority,
+    assignee: task.assignee,
+    due_date: task.due_date,
+    due_time: task.due_time,
+    due_timezone: task.due_timezone,
+    tags: task.tags,
+    rank: task.rank,
+    recurrence: task.recurrence,
+    completed_at: task.completed_at,
+    deleted_at: task.deleted_at,
+    deleted_by: task.deleted_by,
+  }
+}
+
+// A task removed for good comes back with the same id; checklist, comments and attachments went with it
+function restoredTask(task: Task): NewTask {
+  return {
+    ...editableFields(task),
+    id: task.id,
+    board_id: task.board_id,
+    title: task.title,
+    status: task.status,
+    assignee: task.assignee,
+    recurrence_index: task.recurrence_index,
+    recurrence_parent_id: task.recurrence_parent_id,
+    series_id: task.series_id,
+    checklist_auto_complete: task.checklist_auto_complete,
+  }
+}
+
+// Out of the trash, or created again when it has been emptied since
+async function bringBack(task: Task) {
+  const result = await restoreTask(task.id)
+  if (result.error?.code !== 'not_found') return result
+  return taskRepository.create(restoredTask(task))
+}
+
+async function applyEntry(entry: HistoryEntry, direction: Direction, userName: string): Promise<TaskError | null> {
+  // Undo walks back through the changes in reverse
+  const changes = direction === 'undo' ? [...entry.changes].reverse() : entry.changes
+
+  for (const change of changes) {
+    const from = direction === 'undo' ? change.after : change.before
+    const to = direction === 'undo' ? change.before : change.after
+
+    const result = !to
+      ? await trashTask(from!.id, userName)
+      : !from
+        ? await bringBack(to)
+        : await taskRepository.update(to.id, editableFields(to))
+
+    if (result.error) return result.error
+
+    // Reminders follow the due date back (or forward) with it
+    if (from && to && isDueChanged(from, to)) await rescheduleTaskReminders(result.data)
+  }
+
+  return null
+}
+
+export function createUndoHistory() {
+  const past: HistoryEntry[] = []
+  const future: HistoryEntry[] = []
+  let busy = false
+
+  const step = async (direction: Direction, userName: string) => {
+    const from = direction === 'undo' ? past : future
+    const to = direction === 'undo' ? future : past
+    const entry = from[from.length - 1]
+    if (!entry || busy) return { entry: null, error: null }
+
+    busy = true
+    const error = await applyEntry(entry, direction, userName)
+    busy = false
+
+    if (error) {
+      console.error(`Error during ${direction}:`, error)
+      return { entry, error }
+    }
+
+    from.pop()
+    to.push(entry)
+
+    // Every task keeps its id (an undone create is in the trash), so each gets an activity entry
+    for (const change of entry.changes) {
+      const task = change.before ?? change.after
+      if (task) {
+        await logActivity(task.id, direction === 'undo' ? 'undone' : 'redone', userName, { action: entry.label })
+      }
+    }
+
+    return { entry, error: null }
+  }
+
+  return {
+    record(entry: HistoryEntry) {
+      past.push(entry)
+      if (past.length > HISTORY_LIMIT) past.shift()
+      // A new action replaces whatever could have been redone
+      future.length = 0
+    },
+    undo: (userName: string) => step('undo', userName),
+    redo: (userName: string) => step('redo', userName),
+  }
+}
+
+export type UndoHistory = ReturnType<typeof createUndoHistory>
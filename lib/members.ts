@@ -0,0 +1,93 @@
+import { supabase } from './supabase'
+import { logActivity } from './activity'
+import { diffTaskFields } from './fieldChanges'
+import { notifyAssignee } from './notifications'
+import { readSnapshot, saveSnapshot } from './offline'
+import { Member, ColorId } from './types'
+
+export interface MemberInput {
+  name: string
+  email?: string | null
+  avatar_url?: string | null
+  color?: ColorId
+}
+
+export async function fetchMembers(): Promise<Member[]> {
+  const { data, error } = await supabase
+    .from('members')
+    .select('*')
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching members:', error)
+    return (await readSnapshot<Member[]>('members')) ?? []
+  }
+
+  saveSnapshot('members', data || [])
+  return data || []
+}
+
+export async function createMember(input: MemberInput): Promise<Member | null> {
+  const { data, error } = await supabase
+    .from('members')
+    .insert({
+      name: input.name,
+      email: input.email || null,
+      avatar_url: input.avatar_url || null,
+      color: input.color || 'indigo',
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating member:', error)
+    return null
+  }
+
+  return data
+}
+
+export async function updateMember(
+  id: string,
+  updates: Partial<MemberInput> & { active?: boolean }
+): Promise<boolean> {
+  const { error } = await supabase.from('members').update(updates).eq('id', id)
+
+  if (error) {
+    console.error('Error updating member:', error)
+    return false
+  }
+
+  return true
+}
+
+// Move every open (not completed) task from one member to another, who is notified of each one
+export async function reassignOpenTasks(
+  fromMemberId: string,
+  toMemberId: string,
+  actor: { name: string; memberId: string | null },
+  members: Member[]
+): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .update({ assignee: toMemberId, updated_at: new Date().toISOString() })
+    .eq('assignee', fromMemberId)
+    .is('completed_at', null)
+    .is('deleted_at', null)
+    .select('*')
+
+  if (error) {
+    console.error('Error reassigning tasks:', error)
+    return null
+  }
+
+  const reassigned = data || []
+  for (const task of reassigned) {
+    // Only the assignee changed, so tags are not needed for the labels
+    const fields = diffTaskFields({ ...task, assignee: fromMemberId }, { assignee: toMemberId }, { members, tags: [] })
+    await logActivity(task.id, 'updated', actor.name, { fields })
+    await notifyAssignee(task, 'assigned', actor, members)
+  }
+
+  return reassigned.length
+}
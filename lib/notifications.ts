@@ -0,0 +1,191 @@
+import { addDays, isToday, startOfDay } from 'date-fns'
+import { supabase } from './supabase'
+import { isDoneStatus } from './columns'
+import { dueMoment, isOverdue, parseDueDate } from './dueDates'
+import { BoardColumn, Member, NotificationType, Task, TaskNotification } from './types'
+
+export const NOTIFICATION_TYPES: { id: NotificationType; label: string }[] = [
+  { id: 'assigned', label: 'Tarefas atribuídas a mim' },
+  { id: 'status_changed', label: 'As minhas tarefas mudam de coluna' },
+  { id: 'due_soon', label: 'Prazo a terminar (hoje ou amanhã)' },
+  { id: 'overdue', label: 'Tarefas atrasadas' },
+]
+
+const NOTIFICATIONS_LIMIT = 50
+
+export function isNotificationEnabled(member: Member, type: NotificationType): boolean {
+  return member.notification_preferences?.[type] !== false
+}
+
+interface NewNotification {
+  recipient: Member
+  task: Task
+  type: NotificationType
+  actorName: string | null
+  details?: Record<string, unknown>
+  dedupeKey?: string
+}
+
+async function createNotification({ recipient, task, type, actorName, details, dedupeKey }: NewNotification) {
+  if (!isNotificationEnabled(recipient, type)) return
+
+  const { error } = await supabase.from('notifications').upsert(
+    {
+      member_id: recipient.id,
+      task_id: task.id,
+      board_id: task.board_id,
+      type,
+      actor_name: actorName,
+      details: { task_title: task.title, ...details },
+      dedupe_key: dedupeKey ?? null,
+    },
+    { onConflict: 'dedupe_key', ignoreDuplicates: true }
+  )
+
+  if (error) {
+    console.error('Error creating notification:', error)
+  }
+}
+
+// Tell the task's assignee about something someone else did to it; nobody is told about their own actions
+export async function notifyAssignee(
+  task: Task,
+  type: 'assigned' | 'status_changed',
+  actor: { name: string; memberId: string | null },
+  members: Member[],
+  details?: Record<string, unknown>
+): Promise<void> {
+  const recipient = members.find((m) => m.id === task.assignee)
+  if (!recipient || recipient.id === actor.memberId) return
+
+  await createNotification({ recipient, task, type, actorName: actor.name, details })
+}
+
+// Due dates that are checked in this session already
+const checkedDueKeys = new Set<string>()
+
+// Due soon and overdue notifications for the signed-in member's open tasks, once per task and due date
+export async function checkDueNotifications(member: Member, tasks: Task[], columns: BoardColumn[]): Promise<void> {
+  const now = new Date()
+  const dayAfterTomorrow = addDays(startOfDay(now), 2)
+
+  for (const task of tasks) {
+    const due = dueMoment(task)
+    if (task.assignee !== member.id || !due || isDoneStatus(columns, task.status)) continue
+
+    const type: NotificationType | null = isOverdue(task, now) ? 'overdue' : due < dayAfterTomorrow ? 'due_soon' : null
+    if (!type) continue
+
+    // Per recipient, so a reassigned task still notifies its new assignee
+    const dedupeKey = `${type}:${member.id}:${task.id}:${task.due_date}${task.due_time ? `T${task.due_time}` : ''}`
+    if (checkedDueKeys.has(dedupeKey)) continue
+    checkedDueKeys.add(dedupeKey)
+
+    await createNotification({
+      recipient: member,
+      task,
+      type,
+      actorName: null,
+      details: {
+        due_date: task.due_date,
+        // "today" or "tomorrow" as of when it was sent, not when it is read
+        ...(type === 'due_soon' && { day: isToday(due) ? 'today' : 'tomorrow' }),
+      },
+      dedupeKey,
+    })
+  }
+}
+
+export async function fetchNotifications(memberId: string): Promise<TaskNotification[]> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('member_id', memberId)
+    .order('created_at', { ascending: false })
+    .limit(NOTIFICATIONS_LIMIT)
+
+  if (error) {
+    console.error('Error fetching notifications:', error)
+    return []
+  }
+
+  return data || []
+}
+
+export async function markNotificationsRead(ids: string[]): Promise<boolean> {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', ids)
+    .is('read_at', null)
+
+  if (error) {
+    console.error('Error marking notifications as read:', error)
+    return false
+  }
+
+  return true
+}
+
+export async function updateNotificationPreferences(
+  memberId: string,
+  preferences: Member['notification_preferences']
+): Promise<boolean> {
+  const { error } = await supabase.from('members').update({ notification_preferences: preferences }).eq('id', memberId)
+
+  if (error) {
+    console.error('Error updating notification preferences:', error)
+    return false
+  }
+
+  return true
+}
+
+// New notifications, and read state changed on another device
+export function subscribeNotifications(
+  memberId: string,
+  listener: (notification: TaskNotification) => void
+): () => void {
+  const channel = supabase
+    .channel(`notifications-channel-${memberId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'notifications', filter: `member_id=eq.${memberId}` },
+      (payload) => {
+        listener(payload.new as TaskNotification)
+      }
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'notifications', filter: `member_id=eq.${memberId}` },
+      (payload) => {
+        listener(payload.new as TaskNotification)
+      }
+    )
+    .subscribe()
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
+
+export function formatNotificationMessage(notification: TaskNotification): string {
+  const { type, actor_name, details } = notification
+  const title = `"${details?.task_title}"`
+
+  switch (type) {
+    case 'assigned':
+      return `${actor_name} atribuiu-te ${title}`
+    case 'status_changed':
+      return `${actor_name} moveu ${title} para "${details?.to_title}"`
+    case 'due_soon': {
+      // Older notifications have no day stored
+      const day = details?.day ?? (isToday(parseDueDate(details?.due_date as string)) ? 'today' : 'tomorrow')
+      return `${title} termina ${day === 'today' ? 'hoje' : 'amanhã'}`
+    }
+    case 'overdue':
+      return `${title} está atrasada`
+    default:
+      return `Novidades em ${title}`
+  }
+}
@@ -0,0 +1,41 @@
+import { supabase } from './supabase'
+import { localTimeZone } from './dueDates'
+import { Task } from './types'
+
+export interface NextOccurrenceResult {
+  task: Task | null
+  created: boolean
+  // The rule has run out (end date or number of occurrences reached)
+  ended?: boolean
+}
+
+// Ask the server for the next occurrence of a completed recurring task (see app/api/recurrence)
+export async function requestNextOccurrence(
+  taskId: string,
+  userName: string
+): Promise<NextOccurrenceResult | null> {
+  try {
+    // The route only acts for members of the task's board
+    const { data } = await supabase.auth.getSession()
+    const token = data.session?.access_token
+
+    const response = await fetch('/api/recurrence', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      body: JSON.stringify({ taskId, userName, timeZone: localTimeZone() }),
+    })
+
+    if (!response.ok) {
+      console.error('Error creating next occurrence:', await response.text())
+      return null
+    }
+
+    return (await response.json()) as NextOccurrenceResult
+  } catch (error) {
+    console.error('Error creating next occurrence:', error)
+    return null
+  }
+}
@@ -0,0 +1,462 @@
+import { compareRanks, rankBetween, spreadRanks } from './rank'
+import type { NewTask, TaskChange, TaskChanges, TaskRepository, TaskResult } from './tasks'
+import { NEW_TASK_DEFAULTS, Task } from './types'
+
+// Offline copy of the board in IndexedDB: the last fetched boards, columns, members and tags
+// ("snapshots"), the tasks of each board, and the task changes made while disconnected.
+
+const DB_NAME = 'kanban-offline'
+const DB_VERSION = 1
+
+type StoreName = 'snapshots' | 'tasks' | 'queue'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        db.createObjectStore('snapshots')
+        db.createObjectStore('tasks', { keyPath: 'id' }).createIndex('board_id', 'board_id')
+        db.createObjectStore('queue', { keyPath: 'seq', autoIncrement: true })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+  return dbPromise
+}
+
+// Runs `fn` in a transaction and resolves with the result of the request it returns, once committed
+async function transaction<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode)
+    const request = fn(tx.objectStore(storeName))
+    tx.oncomplete = () => resolve(request ? request.result : undefined)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+export async function readSnapshot<T>(key: string): Promise<T | null> {
+  try {
+    return ((await transaction('snapshots', 'readonly', (store) => store.get(key))) as T | undefined) ?? null
+  } catch (error) {
+    console.error('Error reading offline copy:', error)
+    return null
+  }
+}
+
+export async function saveSnapshot(key: string, value: unknown): Promise<void> {
+  try {
+    await transaction('snapshots', 'readwrite', (store) => store.put(value, key))
+  } catch (error) {
+    console.error('Error saving offline copy:', error)
+  }
+}
+
+// Includes the board's trash
+async function readCachedTasks(boardId: string): Promise<Task[]> {
+  const tasks = (await transaction('tasks', 'readonly', (store) => store.index('board_id').getAll(boardId))) as Task[]
+  return (tasks || []).sort((a, b) => compareRanks(a.rank, b.rank))
+}
+
+async function cacheBoardTasks(boardId: string, tasks: Task[]): Promise<void> {
+  await transaction('tasks', 'readwrite', (store) => {
+    const keys = store.index('board_id').getAllKeys(boardId)
+    keys.onsuccess = () => {
+      keys.result.forEach((key) => store.delete(key))
+      tasks.forEach((task) => store.put(task))
+    }
+  })
+}
+
+async function getCachedTask(id: string): Promise<Task | null> {
+  return ((await transaction('tasks', 'readonly', (store) => store.get(id))) as Task | undefined) ?? null
+}
+
+async function putCachedTask(task: Task): Promise<void> {
+  await transaction('tasks', 'readwrite', (store) => store.put(task))
+}
+
+async function deleteCachedTask(id: string): Promise<void> {
+  await transaction('tasks', 'readwrite', (store) => store.delete(id))
+}
+
+// A change made while disconnected. Edits and deletes remember the updated_at they were based
+// on: if the task has changed on the server since, the change is dropped instead of replayed.
+type QueuedMutation =
+  | { type: 'create'; task: NewTask & { id: string; rank: string } }
+  | { type: 'update'; id: string; changes: TaskChanges; base_updated_at: string }
+  | { type: 'delete'; id: string; base_updated_at: string | null }
+  | { type: 'rebalance'; ids: string[] }
+
+type StoredMutation = QueuedMutation & { seq: number }
+
+async function readQueue(): Promise<StoredMutation[]> {
+  return ((await transaction('queue', 'readonly', (store) => store.getAll())) as StoredMutation[]) || []
+}
+
+async function enqueue(mutation: QueuedMutation): Promise<void> {
+  await transaction('queue', 'readwrite', (store) => store.add(mutation))
+}
+
+async function dequeue(seq: number): Promise<void> {
+  await transaction('queue', 'readwrite', (store) => store.delete(seq))
+}
+
+// Connection and replay state, for the header indicator (useSyncExternalStore)
+export interface SyncStatus {
+  online: boolean
+  syncing: boolean
+  // Changes waiting to be sent
+  pending: number
+}
+
+let syncStatus: SyncStatus = { online: true, syncing: false, pending: 0 }
+const statusListeners = new Set<() => void>()
+const conflictListeners = new Set<(title: string) => void>()
+
+function setSyncStatus(changes: Partial<SyncStatus>) {
+  syncStatus = { ...syncStatus, ...changes }
+  statusListeners.forEach((listener) => listener())
+}
+
+export function getSyncStatus(): SyncStatus {
+  return syncStatus
+}
+
+export function subscribeSyncStatus(listener: () => void): () => void {
+  statusListeners.add(listener)
+  return () => {
+    statusListeners.delete(listener)
+  }
+}
+
+// Called with the task title when an offline change is dropped because of a newer one on the server
+export function subscribeSyncConflicts(listener: (title: string) => void): () => void {
+  conflictListeners.add(listener)
+  return () => {
+    conflictListeners.delete(listener)
+  }
+}
+
+function reportConflict(title: string) {
+  conflictListeners.forEach((listener) => listener(title))
+}
+
+// Cache the app itself so the board opens without a connection, and show reminders with
+// snooze buttons (production builds only)
+export function registerOfflineShell() {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return
+
+  navigator.serviceWorker.register('/sw.js').catch((error) => {
+    console.error('Error registering service worker:', error)
+  })
+}
+
+const RETRY_DELAY = 30_000
+
+function sameInstant(a: string, b: string) {
+  return Date.parse(a) === Date.parse(b)
+}
+
+function ok<T>(data: T): TaskResult<T> {
+  return { data, error: null }
+}
+
+function offlineFailure<T>(error: unknown): TaskResult<T> {
+  console.error('Error saving offline change:', error)
+  return { data: null, error: { code: 'network', message: 'Offline storage unavailable' } }
+}
+
+// Wraps a repository so that it keeps working without a connection: reads fall back to the
+// offline copy and changes are queued, then replayed in order once back online.
+export function withOfflineQueue(remote: TaskRepository): TaskRepository {
+  const localListeners = new Set<{ boardId: string; listener: (change: TaskChange) => void }>()
+  let flushing: Promise<void> | null = null
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+
+  const isOffline = () => typeof navigator !== 'undefined' && !navigator.onLine
+  // While anything is queued, new changes go behind it so the order is kept
+  const shouldQueue = () => isOffline() || syncStatus.pending > 0
+
+  // Changes made offline reach the board the same way as realtime ones
+  const emit = (boardId: string, change: TaskChange) => {
+    localListeners.forEach((l) => {
+      if (l.boardId === boardId || change.type === 'delete') l.listener(change)
+    })
+  }
+
+  const scheduleRetry = () => {
+    if (retryTimer) return
+    retryTimer = setTimeout(() => {
+      retryTimer = null
+      flush()
+    }, RETRY_DELAY)
+  }
+
+  const queue = async (mutation: QueuedMutation) => {
+    await enqueue(mutation)
+    setSyncStatus({ pending: syncStatus.pending + 1 })
+    // Online but the server could not be reached
+    if (!isOffline()) scheduleRetry()
+  }
+
+  // 'retry' stops the replay, leaving this and later changes queued
+  const replay = async (mutation: QueuedMutation): Promise<'done' | 'retry'> => {
+    switch (mutation.type) {
+      case 'create': {
+        const { error } = await remote.create(mutation.task)
+        if (error?.code === 'network') return 'retry'
+        // A conflict means an earlier attempt did reach the server
+        if (error && error.code !== 'conflict') {
+          console.error('Error replaying offline change:', error)
+          reportConflict(mutation.task.title)
+        }
+        return 'done'
+      }
+
+      case 'update':
+      case 'delete': {
+        const current = await remote.get(mutation.id)
+        if (current.error?.code === 'network') return 'retry'
+
+        if (current.error) {
+          // Deleted by someone else meanwhile
+          const cached = await getCachedTask(mutation.id)
+          if (mutation.type === 'update' && cached) {
+            await deleteCachedTask(mutation.id)
+            emit(cached.board_id, { type: 'delete', id: mutation.id })
+            reportConflict(cached.title)
+          }
+          return 'done'
+        }
+
+        if (mutation.base_updated_at && !sameInstant(current.data.updated_at, mutation.base_updated_at)) {
+          // Changed by someone else meanwhile: their version wins
+          await putCachedTask(current.data)
+          emit(current.data.board_id, { type: 'update', task: current.data })
+          reportConflict(current.data.title)
+          return 'done'
+        }
+
+        const { error } = mutation.type === 'update'
+          ? await remote.update(mutation.id, mutation.changes)
+          : await remote.delete(mutation.id)
+        if (error?.code === 'network') return 'retry'
+        if (error) console.error('Error replaying offline change:', error)
+        return 'done'
+      }
+
+      case 'rebalance': {
+        const { error } = await remote.rebalance(mutation.ids)
+        if (error?.code === 'network') return 'retry'
+        if (error) console.error('Error replaying offline change:', error)
+        return 'done'
+      }
+    }
+  }
+
+  const flush = (): Promise<void> => {
+    if (flushing) return flushing
+
+    flushing = (async () => {
+      setSyncStatus({ syncing: true })
+      try {
+        let queued = await readQueue()
+        while (queued.length > 0 && !isOffline()) {
+          if ((await replay(queued[0])) === 'retry') {
+            scheduleRetry()
+            break
+          }
+          await dequeue(queued[0].seq)
+          queued = await readQueue()
+          setSyncStatus({ pending: queued.length })
+        }
+      } catch (error) {
+        console.error('Error replaying offline changes:', error)
+      } finally {
+        flushing = null
+        setSyncStatus({ syncing: false })
+      }
+    })()
+
+    return flushing
+  }
+
+  if (typeof window !== 'undefined') {
+    setSyncStatus({ online: navigator.onLine })
+    window.addEventListener('online', () => {
+      setSyncStatus({ online: true })
+      flush()
+    })
+    window.addEventListener('offline', () => setSyncStatus({ online: false }))
+
+    // Changes left from a previous session
+    readQueue()
+      .then((queued) => {
+        setSyncStatus({ pending: queued.length })
+        if (queued.length > 0 && navigator.onLine) flush()
+      })
+      .catch((error) => console.error('Error reading offline changes:', error))
+  }
+
+  const update = async (id: string, changes: TaskChanges): Promise<TaskResult<Task>> => {
+    // Stamped here so the replayed change carries the same updated_at as the offline copy
+    const stamped = { updated_at: new Date().toISOString(), ...changes }
+
+    if (!shouldQueue()) {
+      const result = await remote.update(id, stamped)
+      if (result.error?.code !== 'network') return result
+    }
+
+    try {
+      const cached = await getCachedTask(id)
+      if (!cached) return { data: null, error: { code: 'not_found', message: `Task ${id} not found offline` } }
+
+      const updated = { ...cached, ...stamped }
+      await queue({ type: 'update', id, changes: stamped, base_updated_at: cached.updated_at })
+      await putCachedTask(updated)
+      emit(cached.board_id, { type: 'update', task: updated })
+      return ok(updated)
+    } catch (error) {
+      return offlineFailure(error)
+    }
+  }
+
+  return {
+    async list(boardId) {
+      if (!shouldQueue()) {
+        const result = await remote.list(boardId)
+        if (!result.error) {
+          await cacheBoardTasks(boardId, result.data).catch((error) => console.error('Error saving offline copy:', error))
+          return result
+        }
+        if (result.error.code !== 'network') return result
+      }
+
+      try {
+        return ok((await readCachedTasks(boardId)).filter((t) => !t.deleted_at))
+      } catch (error) {
+        return offlineFailure(error)
+      }
+    },
+
+    async listDeleted(boardId) {
+      if (!shouldQueue()) {
+        const result = await remote.listDeleted(boardId)
+        if (result.error?.code !== 'network') return result
+      }
+
+      try {
+        const deleted = (await readCachedTasks(boardId)).filter((t) => t.deleted_at)
+        return ok(deleted.sort((a, b) => b.deleted_at!.localeCompare(a.deleted_at!)))
+      } catch (error) {
+        return offlineFailure(error)
+      }
+    },
+
+    async get(id) {
+      if (!shouldQueue()) return remote.get(id)
+
+      const cached = await getCachedTask(id).catch(() => null)
+      return cached ? ok(cached) : { data: null, error: { code: 'not_found', message: `Task ${id} not found offline` } }
+    },
+
+    async create(input) {
+      // The id is chosen here so that later offline edits can refer to the task
+      const task = { ...input, id: input.id ?? crypto.randomUUID() }
+
+      if (!shouldQueue()) {
+        const result = await remote.create(task)
+        if (result.error?.code !== 'network') return result
+      }
+
+      try {
+        const lastRank = (await readCachedTasks(task.board_id))
+          .filter((t) => t.status === task.status && !t.deleted_at)
+          .pop()?.rank
+        const rank = task.rank ?? rankBetween(lastRank ?? null, null)
+        const now = new Date().toISOString()
+        const created: Task = { ...NEW_TASK_DEFAULTS, ...task, rank, created_at: now, updated_at: now }
+
+        await queue({ type: 'create', task: { ...task, rank } })
+        await putCachedTask(created)
+        emit(created.board_id, { type: 'insert', task: created })
+        return ok(created)
+      } catch (error) {
+        return offlineFailure(error)
+      }
+    },
+
+    update,
+
+    move(id, status, rank, changes = {}) {
+      return update(id, { ...changes, status, rank })
+    },
+
+    async rebalance(ids) {
+      if (!shouldQueue()) {
+        const result = await remote.rebalance(ids)
+        if (result.error?.code !== 'network') return result
+      }
+
+      try {
+        await queue({ type: 'rebalance', ids })
+        const ranks = spreadRanks(ids.length)
+        for (const [i, id] of ids.entries()) {
+          const cached = await getCachedTask(id)
+          if (!cached) continue
+          const updated = { ...cached, rank: ranks[i] }
+          await putCachedTask(updated)
+          emit(cached.board_id, { type: 'update', task: updated })
+        }
+        return ok(null)
+      } catch (error) {
+        return offlineFailure(error)
+      }
+    },
+
+    async delete(id) {
+      if (!shouldQueue()) {
+        const result = await remote.delete(id)
+        if (result.error?.code !== 'network') return result
+      }
+
+      try {
+        const cached = await getCachedTask(id)
+        await queue({ type: 'delete', id, base_updated_at: cached?.updated_at ?? null })
+        await deleteCachedTask(id)
+        emit(cached?.board_id ?? '', { type: 'delete', id })
+        return ok(null)
+      } catch (error) {
+        return offlineFailure(error)
+      }
+    },
+
+    subscribe(boardId, listener) {
+      const entry = { boardId, listener }
+      localListeners.add(entry)
+
+      const unsubscribe = remote.subscribe(boardId, (change) => {
+        // Keep the offline copy current with everyone's changes
+        const saved = change.type === 'delete' ? deleteCachedTask(change.id) : putCachedTask(change.task)
+        saved.catch((error) => console.error('Error saving offline copy:', error))
+        listener(change)
+      })
+
+      return () => {
+        localListeners.delete(entry)
+        unsubscribe()
+      }
+    },
+  }
+}
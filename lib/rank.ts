@@ -0,0 +1,65 @@
+// Order keys for cards within a column. A key sorts as a plain string (byte order, see the "C"
+// collation on tasks.rank) and there is always room for another key between two neighbours,
+// so moving a card only rewrites that card.
+
+// Ascending in byte order
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz'
+const MIDDLE_DIGIT = DIGITS[DIGITS.length / 2]
+
+// Keys that grow past this after many moves into the same gap get the column rebalanced
+export const MAX_RANK_LENGTH = 12
+
+export function compareRanks(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+// A key strictly between `a` and `b` (null = open end). Keys never end in the lowest digit,
+// otherwise nothing could be placed before them.
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    let shared = 0
+    while ((a[shared] || DIGITS[0]) === b[shared]) shared++
+    if (shared > 0) return b.slice(0, shared) + midpoint(a.slice(shared), b.slice(shared))
+  }
+
+  const low = a ? DIGITS.indexOf(a[0]) : 0
+
+  // Appending after the last card: step to the next digit instead of halving the gap to the
+  // end, so repeated appends keep keys short
+  if (b === null && a) {
+    if (low < DIGITS.length - 1) return DIGITS[low + 1]
+    return a[0] + midpoint(a.slice(1), null)
+  }
+
+  const high = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length
+
+  if (high - low > 1) return DIGITS[Math.round((low + high) / 2)]
+  // Adjacent first digits: b's first digit alone already sorts between them
+  if (b !== null && b.length > 1) return b.slice(0, 1)
+  return DIGITS[low] + midpoint(a.slice(1), null)
+}
+
+// Key for a card placed between `before` and `after` (null at either end of the column)
+export function rankBetween(before: string | null, after: string | null): string {
+  // Two clients can give cards the same key; go after `before` rather than fail
+  if (before !== null && after !== null && before >= after) return midpoint(before, null)
+  return midpoint(before ?? '', after)
+}
+
+export function needsRebalance(rank: string): boolean {
+  return rank.length > MAX_RANK_LENGTH
+}
+
+// `count` short, evenly spaced keys in ascending order, for rebalancing a column
+export function spreadRanks(count: number): string[] {
+  let width = 1
+  while (DIGITS.length ** width <= count) width++
+
+  return Array.from({ length: count }, (_, i) => {
+    let key = ''
+    for (let n = i + 1, w = 0; w < width; w++, n = Math.floor(n / DIGITS.length)) {
+      key = DIGITS[n % DIGITS.length] + key
+    }
+    return key + MIDDLE_DIGIT
+  })
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { createRule, getNextDueDate, getNextOccurrence } from './recurrence'
+import { RecurrenceRule } from './types'
+
+function rule(overrides: Partial<RecurrenceRule>): RecurrenceRule {
+  return { frequency: 'daily', interval: 1, end: { type: 'never' }, mode: 'schedule', ...overrides }
+}
+
+const task = (due_date: string | null, recurrence_index = 1) => ({ due_date, recurrence_index })
+
+describe('getNextDueDate', () => {
+  it('counts from the due date on a schedule', () => {
+    expect(getNextDueDate(rule({ interval: 3 }), task('2026-10-19'))).toBe('2026-10-22')
+    expect(getNextDueDate(rule({ frequency: 'monthly' }), task('2026-01-31'))).toBe('2026-02-28')
+  })
+
+  it('keeps the day a monthly rule was created on after a shorter month', () => {
+    const monthly = createRule('monthly', new Date(2026, 0, 31))
+    expect(getNextDueDate(monthly, task('2026-01-31'))).toBe('2026-02-28')
+    expect(getNextDueDate(monthly, task('2026-02-28'))).toBe('2026-03-31')
+  })
+
+  it('goes to the next listed weekday', () => {
+    // 2026-10-19 is a Monday; next Wednesday, then Monday of the following week
+    const weekly = rule({ frequency: 'weekly', weekdays: [1, 3] })
+    expect(getNextDueDate(weekly, task('2026-10-19'))).toBe('2026-10-21')
+    expect(getNextDueDate(weekly, task('2026-10-21'))).toBe('2026-10-26')
+  })
+
+  it('follows monthly patterns', () => {
+    const lastFriday = rule({ frequency: 'monthly', monthly: { type: 'nth_weekday', nth: -1, weekday: 5 } })
+    expect(getNextDueDate(lastFriday, task('2026-10-30'))).toBe('2026-11-27')
+  })
+
+  it('stops after the last occurrence or end date', () => {
+    expect(getNextDueDate(rule({ end: { type: 'count', count: 3 } }), task('2026-10-19', 3))).toBeNull()
+    expect(getNextDueDate(rule({ end: { type: 'until', date: '2026-10-19' } }), task('2026-10-19'))).toBeNull()
+  })
+
+  it('counts from the day of completion in the given time zone', () => {
+    const afterCompletion = rule({ mode: 'after_completion' })
+    // 19 Oct, 23:30 UTC is still the 19th in New York but already the 20th in Lisbon
+    const completedAt = new Date('2026-10-19T23:30:00Z')
+
+    expect(getNextDueDate(afterCompletion, task(null), completedAt, 'America/New_York')).toBe('2026-10-20')
+    expect(getNextDueDate(afterCompletion, task(null), completedAt, 'Europe/Lisbon')).toBe('2026-10-21')
+  })
+})
+
+describe('getNextOccurrence', () => {
+  it('passes over skipped dates, which still count', () => {
+    expect(getNextOccurrence(rule({}), task('2026-10-19'), ['2026-10-20'])).toEqual({ due_date: '2026-10-21', index: 3 })
+  })
+})
@@ -0,0 +1,244 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarWeeks,
+  format,
+  getDate,
+  getDay,
+  getDaysInMonth,
+  isAfter,
+  isWeekend,
+  lastDayOfMonth,
+  parseISO,
+  setDate,
+  startOfMonth,
+  subDays,
+} from 'date-fns'
+import { pt } from 'date-fns/locale'
+import { dayInTimeZone, localTimeZone } from './dueDates'
+import { MonthlyPattern, RecurrenceFrequency, RecurrenceRule, Task } from './types'
+
+export const WEEKDAY_SHORT = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb']
+export const WEEKDAY_NAMES = ['domingo', 'segunda-feira', 'terça-feira', 'quarta-feira', 'quinta-feira', 'sexta-feira', 'sábado']
+// Monday first, as in the calendar
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0]
+
+const UNITS: Record<RecurrenceFrequency, [string, string]> = {
+  daily: ['dia', 'dias'],
+  weekly: ['semana', 'semanas'],
+  monthly: ['mês', 'meses'],
+  yearly: ['ano', 'anos'],
+}
+
+// A new rule repeating from `anchor` (the due date). Weekly and monthly rules keep the anchor's
+// weekday and day of the month, so a rule starting on the 31st goes back to the 31st after a
+// shorter month instead of staying on the 28th or 30th.
+export function createRule(frequency: RecurrenceFrequency, anchor: Date): RecurrenceRule {
+  const rule: RecurrenceRule = { frequency, interval: 1, end: { type: 'never' }, mode: 'schedule' }
+  if (frequency === 'weekly') rule.weekdays = [getDay(anchor)]
+  if (frequency === 'monthly') rule.monthly = { type: 'day_of_month', day: getDate(anchor) }
+  return rule
+}
+
+function addUnits(date: Date, frequency: RecurrenceFrequency, amount: number): Date {
+  switch (frequency) {
+    case 'daily':
+      return addDays(date, amount)
+    case 'weekly':
+      return addWeeks(date, amount)
+    case 'monthly':
+      return addMonths(date, amount)
+    case 'yearly':
+      return addYears(date, amount)
+  }
+}
+
+// The day a monthly pattern falls on within the month of `month`
+function dayInMonth(month: Date, pattern: MonthlyPattern): Date {
+  switch (pattern.type) {
+    case 'day_of_month':
+      return setDate(startOfMonth(month), Math.min(pattern.day, getDaysInMonth(month)))
+    case 'nth_weekday': {
+      if (pattern.nth === -1) {
+        let day = lastDayOfMonth(month)
+        while (getDay(day) !== pattern.weekday) day = subDays(day, 1)
+        return day
+      }
+      let day = startOfMonth(month)
+      while (getDay(day) !== pattern.weekday) day = addDays(day, 1)
+      return addWeeks(day, pattern.nth - 1)
+    }
+    case 'last_working_day': {
+      let day = lastDayOfMonth(month)
+      while (isWeekend(day)) day = subDays(day, 1)
+      return day
+    }
+  }
+}
+
+function nextOnSchedule(rule: RecurrenceRule, base: Date): Date {
+  if (rule.frequency === 'weekly' && rule.weekdays && rule.weekdays.length > 0) {
+    // Next listed weekday, only in weeks that are a multiple of the interval away from the base week
+    for (let i = 1; i <= 7 * (rule.interval + 1); i++) {
+      const day = addDays(base, i)
+      const weeks = differenceInCalendarWeeks(day, base, { weekStartsOn: 1 })
+      if (weeks % rule.interval === 0 && rule.weekdays.includes(getDay(day))) return day
+    }
+  }
+
+  if (rule.frequency === 'monthly') {
+    // Rules made before the day was stored fall back to the current occurrence's day
+    const pattern = rule.monthly ?? { type: 'day_of_month', day: getDate(base) }
+    // The pattern may still fall later in the base month (e.g. a task due before the first Saturday)
+    const sameMonth = dayInMonth(base, pattern)
+    if (isAfter(sameMonth, base)) return sameMonth
+    return dayInMonth(addMonths(startOfMonth(base), rule.interval), pattern)
+  }
+
+  return addUnits(base, rule.frequency, rule.interval)
+}
+
+// Due date (yyyy-MM-dd) of the next occurrence, or null when the rule has ended. The day of
+// completion is the one in `timeZone`: on the server the local zone is usually UTC, which can
+// be a day off from the person who completed the task.
+export function getNextDueDate(
+  rule: RecurrenceRule,
+  task: Pick<Task, 'due_date' | 'recurrence_index'>,
+  completedAt: Date = new Date(),
+  timeZone: string = localTimeZone()
+): string | null {
+  if (rule.end.type === 'count' && (task.recurrence_index || 1) >= rule.end.count) return null
+
+  const completedOn = dayInTimeZone(completedAt, timeZone)
+  const next = rule.mode === 'after_completion'
+    ? addUnits(completedOn, rule.frequency, rule.interval)
+    : nextOnSchedule(rule, task.due_date ? parseISO(task.due_date) : completedOn)
+
+  if (rule.end.type === 'until' && isAfter(next, parseISO(rule.end.date))) return null
+
+  return format(next, 'yyyy-MM-dd')
+}
+
+function everyN(rule: RecurrenceRule, single: string): string {
+  if (rule.interval === 1) return single
+  return `A cada ${rule.interval} ${UNITS[rule.frequency][1]}`
+}
+
+// Sunday and Saturday are masculine in Portuguese, the other weekdays feminine
+function ordinal(nth: number, weekday: number): string {
+  const masculine = weekday === 0 || weekday === 6
+  if (nth === -1) return masculine ? 'Último' : 'Última'
+  return `${nth}.${masculine ? 'º' : 'ª'}`
+}
+
+function describeMonthly(rule: RecurrenceRule): string {
+  const suffix = rule.interval > 1 ? `, a cada ${rule.interval} meses` : ''
+  const pattern = rule.monthly
+
+  if (!pattern) return everyN(rule, 'Todos os meses')
+
+  switch (pattern.type) {
+    case 'day_of_month':
+      return `Dia ${pattern.day} de cada mês${suffix}`
+    case 'nth_weekday':
+      return `${ordinal(pattern.nth, pattern.weekday)} ${WEEKDAY_NAMES[pattern.weekday]} do mês${suffix}`
+    case 'last_working_day':
+      return `Último dia útil do mês${suffix}`
+  }
+}
+
+function describeWeekly(rule: RecurrenceRule): string {
+  const weekdays = WEEKDAY_ORDER.filter((d) => rule.weekdays?.includes(d))
+  if (weekdays.length === 0) return everyN(rule, 'Todas as semanas')
+
+  const isWorkingDays = weekdays.length === 5 && !weekdays.includes(0) && !weekdays.includes(6)
+  const days = isWorkingDays ? 'Dias úteis' : weekdays.map((d) => WEEKDAY_SHORT[d]).join(', ')
+  return rule.interval === 1 ? days : `A cada ${rule.interval} semanas: ${days}`
+}
+
+// Short Portuguese summary, e.g. "Seg, Qua, Sex" or "Último dia útil do mês · 6 vezes"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  let summary: string
+
+  if (rule.mode === 'after_completion') {
+    const [one, many] = UNITS[rule.frequency]
+    summary = `${rule.interval} ${rule.interval === 1 ? one : many} após conclusão`
+  } else {
+    switch (rule.frequency) {
+      case 'daily':
+        summary = everyN(rule, 'Todos os dias')
+        break
+      case 'weekly':
+        summary = describeWeekly(rule)
+        break
+      case 'monthly':
+        summary = describeMonthly(rule)
+        break
+      case 'yearly':
+        summary = everyN(rule, 'Todos os anos')
+        break
+    }
+  }
+
+  if (rule.end.type === 'count') {
+    summary += ` · ${rule.end.count} vezes`
+  } else if (rule.end.type === 'until') {
+    summary += ` · até ${format(parseISO(rule.end.date), 'd MMM yyyy', { locale: pt })}`
+  }
+
+  return summary
+}
+
+export interface Occurrence {
+  due_date: string
+  index: number
+}
+
+// Next occurrence that is not skipped. Skipped dates still count towards an "after N times" end.
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  task: Pick<Task, 'due_date' | 'recurrence_index'>,
+  skippedDates: string[] = [],
+  completedAt: Date = new Date(),
+  timeZone: string = localTimeZone()
+): Occurrence | null {
+  let current = task
+
+  // Bounded in case every upcoming date has been skipped
+  for (let i = 0; i < 100; i++) {
+    const dueDate = getNextDueDate(rule, current, completedAt, timeZone)
+    if (!dueDate) return null
+
+    const index = (current.recurrence_index || 1) + 1
+    if (!skippedDates.includes(dueDate)) return { due_date: dueDate, index }
+    current = { due_date: dueDate, recurrence_index: index }
+  }
+
+  return null
+}
+
+// Upcoming due dates after `task`, skipped ones included so they can be shown (and restored).
+// Rules counted from completion have no fixed dates, so nothing is projected for them.
+export function projectOccurrences(
+  rule: RecurrenceRule,
+  task: Pick<Task, 'due_date' | 'recurrence_index'>,
+  count: number
+): Occurrence[] {
+  if (rule.mode === 'after_completion' || !task.due_date) return []
+
+  const occurrences: Occurrence[] = []
+  let current = task
+
+  while (occurrences.length < count) {
+    const dueDate = getNextDueDate(rule, current)
+    if (!dueDate) break
+
+    const index = (current.recurrence_index || 1) + 1
+    occurrences.push({ due_date: dueDate, index })
+    current = { due_date: dueDate, recurrence_index: index }
+  }
+
+  return occurrences
+}
@@ -0,0 +1,245 @@
+import { addMinutes, format, isToday, isTomorrow, parseISO, subDays } from 'date-fns'
+import { pt } from 'date-fns/locale'
+import { supabase } from './supabase'
+import { Due, localTimeZone, parseDueDate, zonedTimeToDate } from './dueDates'
+import { Task, TaskReminder } from './types'
+
+export const REMINDER_PRESETS: { days_before: number; time: string }[] = [
+  { days_before: 0, time: '09:00' },
+  { days_before: 1, time: '09:00' },
+  { days_before: 2, time: '09:00' },
+  { days_before: 7, time: '09:00' },
+]
+
+// Snooze choices offered on the notification (browsers show at most two actions)
+export const SNOOZE_OPTIONS: { action: string; title: string; minutes: number }[] = [
+  { action: 'snooze-10', title: 'Adiar 10 min', minutes: 10 },
+  { action: 'snooze-60', title: 'Adiar 1 hora', minutes: 60 },
+]
+
+const CHECK_INTERVAL = 30_000
+
+// e.g. "No dia, às 09:00" or "2 dias antes, às 09:00"
+export function describeReminder(reminder: Pick<TaskReminder, 'days_before' | 'time'>): string {
+  const when =
+    reminder.days_before === 0
+      ? 'No dia'
+      : reminder.days_before === 7
+        ? '1 semana antes'
+        : `${reminder.days_before} ${reminder.days_before === 1 ? 'dia' : 'dias'} antes`
+  return `${when}, às ${reminder.time}`
+}
+
+// The reminder time is read in the task's time zone, so it fires at the same moment for everyone;
+// tasks without a due time have no zone and use the local one
+export function computeFireAt(task: Due, daysBefore: number, time: string): string | null {
+  if (!task.due_date) return null
+  const day = format(subDays(parseDueDate(task.due_date), daysBefore), 'yyyy-MM-dd')
+  return zonedTimeToDate(day, time, task.due_timezone || localTimeZone()).toISOString()
+}
+
+export async function fetchTaskReminders(taskId: string, memberId: string): Promise<TaskReminder[]> {
+  const { data, error } = await supabase
+    .from('task_reminders')
+    .select('*')
+    .eq('task_id', taskId)
+    .eq('member_id', memberId)
+    .order('days_before', { ascending: false })
+    .order('time', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching reminders:', error)
+    return []
+  }
+
+  return data || []
+}
+
+export async function addReminder(
+  task: Task,
+  memberId: string,
+  daysBefore: number,
+  time: string
+): Promise<TaskReminder | null> {
+  const { data, error } = await supabase
+    .from('task_reminders')
+    .insert({
+      task_id: task.id,
+      member_id: memberId,
+      days_before: daysBefore,
+      time,
+      fire_at: computeFireAt(task, daysBefore, time),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error adding reminder:', error)
+    return null
+  }
+
+  return data
+}
+
+export async function deleteReminder(id: string): Promise<boolean> {
+  const { error } = await supabase.from('task_reminders').delete().eq('id', id)
+
+  if (error) {
+    console.error('Error deleting reminder:', error)
+    return false
+  }
+
+  return true
+}
+
+// After the due date, time or zone changes: every reminder on the task (anyone's) fires again at its new time
+export async function rescheduleTaskReminders(task: Task): Promise<void> {
+  const { data, error } = await supabase.from('task_reminders').select('*').eq('task_id', task.id)
+
+  if (error) {
+    console.error('Error fetching reminders:', error)
+    return
+  }
+
+  for (const reminder of data || []) {
+    const { error: updateError } = await supabase
+      .from('task_reminders')
+      .update({ fire_at: computeFireAt(task, reminder.days_before, reminder.time), delivered_at: null })
+      .eq('id', reminder.id)
+
+    if (updateError) console.error('Error rescheduling reminder:', updateError)
+  }
+}
+
+export async function snoozeReminder(id: string, minutes: number): Promise<boolean> {
+  const { error } = await supabase
+    .from('task_reminders')
+    .update({ fire_at: addMinutes(new Date(), minutes).toISOString(), delivered_at: null })
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error snoozing reminder:', error)
+    return false
+  }
+
+  return true
+}
+
+type DueReminder = TaskReminder & { task: Pick<Task, 'title' | 'due_date' | 'completed_at' | 'deleted_at'> | null }
+
+// Reminders of this member that are due and that this device got to first. The claim only
+// succeeds while delivered_at is still empty, so another device showing it wins the race.
+async function claimDueReminders(memberId: string): Promise<DueReminder[]> {
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from('task_reminders')
+    .select('*, task:tasks(title, due_date, completed_at, deleted_at)')
+    .eq('member_id', memberId)
+    .is('delivered_at', null)
+    .lte('fire_at', now)
+
+  if (error) {
+    console.error('Error fetching due reminders:', error)
+    return []
+  }
+
+  const claimed: DueReminder[] = []
+  for (const reminder of (data || []) as DueReminder[]) {
+    const { data: rows, error: claimError } = await supabase
+      .from('task_reminders')
+      .update({ delivered_at: now })
+      .eq('id', reminder.id)
+      .is('delivered_at', null)
+      .select('id')
+
+    if (claimError) {
+      console.error('Error claiming reminder:', claimError)
+      continue
+    }
+    // Done and trashed tasks use up their reminders without showing them
+    if (rows.length > 0 && reminder.task && !reminder.task.completed_at && !reminder.task.deleted_at) {
+      claimed.push(reminder)
+    }
+  }
+
+  return claimed
+}
+
+function reminderBody(dueDate: string | null): string {
+  if (!dueDate) return 'Lembrete'
+  const due = parseISO(dueDate)
+  if (isToday(due)) return 'Termina hoje'
+  if (isTomorrow(due)) return 'Termina amanhã'
+  return `Termina a ${format(due, "d 'de' MMMM", { locale: pt })}`
+}
+
+// Actions are only supported on service worker notifications, so the DOM typings leave them out
+interface ReminderNotificationOptions extends NotificationOptions {
+  actions?: { action: string; title: string }[]
+}
+
+// The service worker shows the notification with snooze buttons; without one (development
+// builds) a plain notification is shown instead
+async function showReminder(reminder: DueReminder, onOpenTask: (taskId: string) => void) {
+  const title = reminder.task?.title ?? 'Lembrete'
+  const options = {
+    body: reminderBody(reminder.task?.due_date ?? null),
+    tag: reminder.id,
+    data: { reminderId: reminder.id, taskId: reminder.task_id },
+  }
+
+  const registration = await navigator.serviceWorker?.getRegistration()
+  if (registration) {
+    const withActions: ReminderNotificationOptions = {
+      ...options,
+      actions: SNOOZE_OPTIONS.map(({ action, title }) => ({ action, title })),
+    }
+    await registration.showNotification(title, withActions)
+    return
+  }
+
+  const notification = new Notification(title, options)
+  notification.onclick = () => {
+    window.focus()
+    onOpenTask(reminder.task_id)
+  }
+}
+
+export function canShowReminders(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window
+}
+
+// Asked when the first reminder is added
+export async function requestReminderPermission(): Promise<boolean> {
+  if (!canShowReminders()) return false
+  if (Notification.permission === 'granted') return true
+  return (await Notification.requestPermission()) === 'granted'
+}
+
+// Checks for due reminders while the app is open, including in a background tab, and handles
+// snooze and open from the service worker. Returns a function that stops it.
+export function startReminderScheduler(memberId: string, onOpenTask: (taskId: string) => void): () => void {
+  if (!canShowReminders()) return () => {}
+
+  const check = async () => {
+    if (Notification.permission !== 'granted') return
+    for (const reminder of await claimDueReminders(memberId)) {
+      await showReminder(reminder, onOpenTask)
+    }
+  }
+
+  const onMessage = (event: MessageEvent) => {
+    const message = event.data
+    if (message?.type === 'reminder-snooze') snoozeReminder(message.reminderId, message.minutes)
+    else if (message?.type === 'reminder-open') onOpenTask(message.taskId)
+  }
+
+  check()
+  const timer = setInterval(check, CHECK_INTERVAL)
+  navigator.serviceWorker?.addEventListener('message', onMessage)
+
+  return () => {
+    clearInterval(timer)
+    navigator.serviceWorker?.removeEventListener('message', onMessage)
+  }
+}
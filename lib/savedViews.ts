@@ -0,0 +1,43 @@
+import { supabase } from './supabase'
+import { normalizeFilter } from './filters'
+import { SavedView, TaskFilter } from './types'
+
+export async function fetchSavedViews(): Promise<SavedView[]> {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .select('*')
+    .order('name', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching saved views:', error)
+    return []
+  }
+
+  return (data || []).map((view) => ({ ...view, filter: normalizeFilter(view.filter) }))
+}
+
+export async function createSavedView(name: string, filter: TaskFilter): Promise<SavedView | null> {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .insert({ name, filter })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error saving view:', error)
+    return null
+  }
+
+  return data
+}
+
+export async function deleteSavedView(id: string): Promise<boolean> {
+  const { error } = await supabase.from('saved_views').delete().eq('id', id)
+
+  if (error) {
+    console.error('Error deleting saved view:', error)
+    return false
+  }
+
+  return true
+}
@@ -0,0 +1,114 @@
+import { supabase } from './supabase'
+import { SeriesFields, Task, TaskSeries } from './types'
+
+export async function fetchSeries(id: string): Promise<TaskSeries | null> {
+  const { data, error } = await supabase.from('task_series').select('*').eq('id', id).maybeSingle()
+
+  if (error) {
+    console.error('Error fetching series:', error)
+    return null
+  }
+
+  return data
+}
+
+// Every occurrence of a series, first to last
+export async function fetchSeriesTasks(seriesId: string): Promise<Task[]> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('series_id', seriesId)
+    .is('deleted_at', null)
+    .order('recurrence_index', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching series tasks:', error)
+    return []
+  }
+
+  return data || []
+}
+
+export async function createSeries(boardId: string, fields: SeriesFields): Promise<TaskSeries | null> {
+  const { data, error } = await supabase
+    .from('task_series')
+    .insert({ board_id: boardId, ...fields })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating series:', error)
+    return null
+  }
+
+  return data
+}
+
+// Change the template and every open occurrence from `fromIndex` on, leaving the trash alone
+export async function updateFutureOccurrences(
+  seriesId: string,
+  fromIndex: number,
+  fields: SeriesFields
+): Promise<boolean> {
+  const { error: seriesError } = await supabase.from('task_series').update(fields).eq('id', seriesId)
+
+  if (seriesError) {
+    console.error('Error updating series:', seriesError)
+    return false
+  }
+
+  const { error } = await supabase
+    .from('tasks')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('series_id', seriesId)
+    .gte('recurrence_index', fromIndex)
+    .is('completed_at', null)
+    .is('deleted_at', null)
+
+  if (error) {
+    console.error('Error updating future occurrences:', error)
+    return false
+  }
+
+  return true
+}
+
+export async function setSkippedDates(seriesId: string, skippedDates: string[]): Promise<boolean> {
+  const { error } = await supabase
+    .from('task_series')
+    .update({ skipped_dates: skippedDates })
+    .eq('id', seriesId)
+
+  if (error) {
+    console.error('Error updating skipped dates:', error)
+    return false
+  }
+
+  return true
+}
+
+// No more occurrences: open ones stay but no longer repeat
+export async function endSeries(seriesId: string): Promise<boolean> {
+  const { error: seriesError } = await supabase
+    .from('task_series')
+    .update({ ended_at: new Date().toISOString() })
+    .eq('id', seriesId)
+
+  if (seriesError) {
+    console.error('Error ending series:', seriesError)
+    return false
+  }
+
+  const { error } = await supabase
+    .from('tasks')
+    .update({ recurrence: null, updated_at: new Date().toISOString() })
+    .eq('series_id', seriesId)
+    .is('completed_at', null)
+
+  if (error) {
+    console.error('Error ending series:', error)
+    return false
+  }
+
+  return true
+}
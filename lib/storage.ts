@@ -0,0 +1,66 @@
+import { supabase } from './supabase'
+
+export interface StorageBackend {
+  upload: (path: string, file: File) => Promise<{ error: string | null }>
+  remove: (paths: string[]) => Promise<void>
+  getUrl: (path: string) => string
+}
+
+// Set NEXT_PUBLIC_STORAGE_MODE=local to keep files on disk instead of Supabase Storage (testing only)
+export const isLocalStorage = process.env.NEXT_PUBLIC_STORAGE_MODE === 'local'
+
+const BUCKET = 'attachments'
+
+const supabaseStorage: StorageBackend = {
+  async upload(path, file) {
+    const { error } = await supabase.storage
+      .from(BUCKET)
+      .upload(path, file, { contentType: file.type || undefined })
+    return { error: error ? error.message : null }
+  },
+
+  async remove(paths) {
+    if (paths.length === 0) return
+    const { error } = await supabase.storage.from(BUCKET).remove(paths)
+    if (error) {
+      console.error('Error removing files:', error)
+    }
+  },
+
+  getUrl(path) {
+    return supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl
+  },
+}
+
+// Local stand-in: files go through the /api/local-storage route into .local-storage/
+const LOCAL_ROUTE = '/api/local-storage'
+
+function localUrl(path: string) {
+  return `${LOCAL_ROUTE}/${path.split('/').map(encodeURIComponent).join('/')}`
+}
+
+const localStorageBackend: StorageBackend = {
+  async upload(path, file) {
+    const response = await fetch(localUrl(path), {
+      method: 'PUT',
+      headers: { 'Content-Type': file.type || 'application/octet-stream' },
+      body: file,
+    })
+    return { error: response.ok ? null : await response.text() }
+  },
+
+  async remove(paths) {
+    for (const path of paths) {
+      const response = await fetch(localUrl(path), { method: 'DELETE' })
+      if (!response.ok) {
+        console.error('Error removing file:', path)
+      }
+    }
+  },
+
+  getUrl(path) {
+    return localUrl(path)
+  },
+}
+
+export const storageBackend: StorageBackend = isLocalStorage ? localStorageBackend : supabaseStorage
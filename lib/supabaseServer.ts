@@ -0,0 +1,41 @@
+import { SupabaseClient, createClient } from '@supabase/supabase-js'
+import { isLocalAuth } from './auth'
+
+// Client for route handlers. Uses the service role key when it is configured,
+// so server-side writes do not depend on row level security policies.
+export function createServerClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+  return createClient(supabaseUrl, supabaseKey, {
+    auth: { persistSession: false },
+  })
+}
+
+// Whether the request comes from someone signed in who is a member of the board. The service
+// role key skips row level security, so routes check this themselves before writing. The
+// caller's Supabase access token is sent as "Authorization: Bearer <token>", and the signed-in
+// email must belong to one of the board's members. Local auth (testing only) has no tokens.
+export async function canAccessBoard(supabase: SupabaseClient, request: Request, boardId: string): Promise<boolean> {
+  if (isLocalAuth) return true
+
+  const token = request.headers.get('Authorization')?.replace(/^Bearer /, '')
+  if (!token) return false
+
+  const { data: auth, error: authError } = await supabase.auth.getUser(token)
+  const email = auth.user?.email?.toLowerCase()
+  if (authError || !email) return false
+
+  const { data: boardMembers, error } = await supabase
+    .from('board_members')
+    .select('member:members(email)')
+    .eq('board_id', boardId)
+    .returns<{ member: { email: string | null } | null }[]>()
+
+  if (error) {
+    console.error('Error checking board access:', error)
+    return false
+  }
+
+  return boardMembers.some((m) => m.member?.email?.toLowerCase() === email)
+}
@@ -0,0 +1,76 @@
+import { supabase } from './supabase'
+import { readSnapshot, saveSnapshot } from './offline'
+import { Tag, ColorId } from './types'
+
+export interface TagInput {
+  label: string
+  color?: ColorId
+}
+
+export async function fetchTags(): Promise<Tag[]> {
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*')
+    .order('label', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching tags:', error)
+    return (await readSnapshot<Tag[]>('tags')) ?? []
+  }
+
+  saveSnapshot('tags', data || [])
+  return data || []
+}
+
+export async function createTag(input: TagInput): Promise<Tag | null> {
+  const { data, error } = await supabase
+    .from('tags')
+    .insert({ label: input.label, color: input.color || 'slate' })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating tag:', error)
+    return null
+  }
+
+  return data
+}
+
+export async function updateTag(id: string, updates: Partial<TagInput>): Promise<boolean> {
+  const { error } = await supabase.from('tags').update(updates).eq('id', id)
+
+  if (error) {
+    console.error('Error updating tag:', error)
+    return false
+  }
+
+  return true
+}
+
+// Deletes the tag and strips it from every task (see delete_tag in schema.sql)
+export async function deleteTag(id: string): Promise<boolean> {
+  const { error } = await supabase.rpc('delete_tag', { p_tag_id: id })
+
+  if (error) {
+    console.error('Error deleting tag:', error)
+    return false
+  }
+
+  return true
+}
+
+// Replaces source with target on every task, then deletes source (see merge_tags in schema.sql)
+export async function mergeTags(sourceId: string, targetId: string): Promise<boolean> {
+  const { error } = await supabase.rpc('merge_tags', {
+    p_source_id: sourceId,
+    p_target_id: targetId,
+  })
+
+  if (error) {
+    console.error('Error merging tags:', error)
+    return false
+  }
+
+  return true
+}
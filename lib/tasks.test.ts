@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import { createMemoryTaskRepository, TaskChange } from './tasks'
+import { NEW_TASK_DEFAULTS, Task } from './types'
+
+const BOARD = 'board-1'
+
+function newTask(title: string, status = 'todo') {
+  return { board_id: BOARD, title, status, assignee: 'member-1' }
+}
+
+async function titles(repository: ReturnType<typeof createMemoryTaskRepository>, status = 'todo') {
+  const { data } = await repository.list(BOARD)
+  return data!.filter((t) => t.status === status).map((t) => t.title)
+}
+
+describe('memory task repository', () => {
+  it('creates tasks at the end of their column', async () => {
+    const repository = createMemoryTaskRepository()
+    await repository.create(newTask('A'))
+    await repository.create(newTask('B'))
+    await repository.create(newTask('C', 'done'))
+
+    expect(await titles(repository)).toEqual(['A', 'B'])
+    expect(await titles(repository, 'done')).toEqual(['C'])
+  })
+
+  it('refuses a task without a title', async () => {
+    const repository = createMemoryTaskRepository()
+    const { error } = await repository.create(newTask('  '))
+    expect(error?.code).toBe('invalid')
+  })
+
+  it('gets a task by id and reports missing ones', async () => {
+    const repository = createMemoryTaskRepository()
+    const { data: created } = await repository.create(newTask('A'))
+
+    expect((await repository.get(created!.id)).data).toEqual(created)
+    expect((await repository.get('missing')).error?.code).toBe('not_found')
+  })
+
+  it('moves a task to another column and rank', async () => {
+    const repository = createMemoryTaskRepository()
+    const { data: a } = await repository.create(newTask('A'))
+    const { data: b } = await repository.create(newTask('B', 'doing'))
+
+    const { data: moved } = await repository.move(a!.id, 'doing', `${b!.rank}V`, { completed_at: null })
+
+    expect(moved?.status).toBe('doing')
+    expect(await titles(repository, 'doing')).toEqual(['B', 'A'])
+    expect(await titles(repository)).toEqual([])
+  })
+
+  it('rebalances a column to short keys in the given order', async () => {
+    const repository = createMemoryTaskRepository()
+    const ids: string[] = []
+    for (const title of ['A', 'B', 'C']) ids.push((await repository.create(newTask(title))).data!.id)
+
+    const { error } = await repository.rebalance([ids[2], ids[0], ids[1]])
+
+    expect(error).toBeNull()
+    expect(await titles(repository)).toEqual(['C', 'A', 'B'])
+    const { data } = await repository.list(BOARD)
+    expect(data!.every((t) => t.rank.length <= 2)).toBe(true)
+    expect((await repository.rebalance(['missing'])).error?.code).toBe('not_found')
+  })
+
+  it('keeps trashed tasks out of the list', async () => {
+    const existing: Task = {
+      ...NEW_TASK_DEFAULTS,
+      ...newTask('Trashed'),
+      id: 'trashed',
+      rank: 'V',
+      created_at: '2026-01-01T00:00:00Z',
+      updated_at: '2026-01-01T00:00:00Z',
+      deleted_at: '2026-01-02T00:00:00Z',
+    }
+    const repository = createMemoryTaskRepository([existing])
+
+    expect(await titles(repository)).toEqual([])
+    expect((await repository.listDeleted(BOARD)).data).toEqual([existing])
+  })
+
+  it('deletes a task for good', async () => {
+    const repository = createMemoryTaskRepository()
+    const { data: a } = await repository.create(newTask('A'))
+
+    expect((await repository.delete(a!.id)).error).toBeNull()
+    expect((await repository.get(a!.id)).error?.code).toBe('not_found')
+    expect((await repository.delete(a!.id)).error?.code).toBe('not_found')
+  })
+
+  it('notifies subscribers of changes on their board until they unsubscribe', async () => {
+    const repository = createMemoryTaskRepository()
+    const changes: TaskChange[] = []
+    const otherBoard: TaskChange[] = []
+    const unsubscribe = repository.subscribe(BOARD, (change) => changes.push(change))
+    repository.subscribe('board-2', (change) => otherBoard.push(change))
+
+    const { data: a } = await repository.create(newTask('A'))
+    await repository.update(a!.id, { title: 'A2' })
+    await repository.delete(a!.id)
+    unsubscribe()
+    await repository.create(newTask('B'))
+
+    expect(changes.map((c) => c.type)).toEqual(['insert', 'update', 'delete'])
+    expect(changes[1]).toMatchObject({ type: 'update', task: { title: 'A2' } })
+    // Deletes reach every board, like the Supabase channel
+    expect(otherBoard.map((c) => c.type)).toEqual(['delete'])
+  })
+})
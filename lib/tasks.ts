@@ -0,0 +1,317 @@
+import { PostgrestError } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { compareRanks, rankBetween, spreadRanks } from './rank'
+import { withOfflineQueue } from './offline'
+import { NEW_TASK_DEFAULTS, Task, TaskStatus } from './types'
+
+export type TaskErrorCode = 'not_found' | 'conflict' | 'invalid' | 'network' | 'unknown'
+
+export interface TaskError {
+  code: TaskErrorCode
+  message: string
+}
+
+export type TaskResult<T> = { data: T; error: null } | { data: null; error: TaskError }
+
+// Fields the database fills in are optional; without a rank the task goes to the end of its column
+export type NewTask = Pick<Task, 'board_id' | 'title' | 'status' | 'assignee'> &
+  Partial<Omit<Task, 'board_id' | 'title' | 'status' | 'assignee' | 'created_at'>>
+
+export type TaskChanges = Partial<Omit<Task, 'id' | 'created_at'>>
+
+export type TaskChange =
+  | { type: 'insert'; task: Task }
+  | { type: 'update'; task: Task }
+  | { type: 'delete'; id: string }
+
+export interface TaskRepository {
+  // Tasks on the board, without the ones in the trash
+  list: (boardId: string) => Promise<TaskResult<Task[]>>
+  // The board's trash, most recently deleted first
+  listDeleted: (boardId: string) => Promise<TaskResult<Task[]>>
+  get: (id: string) => Promise<TaskResult<Task>>
+  create: (task: NewTask) => Promise<TaskResult<Task>>
+  update: (id: string, changes: TaskChanges) => Promise<TaskResult<Task>>
+  // Change column and/or rank; completed_at and the like can ride along in `changes`
+  move: (id: string, status: TaskStatus, rank: string, changes?: TaskChanges) => Promise<TaskResult<Task>>
+  // Give the tasks short, evenly spaced ranks in the order of `ids` (a whole column)
+  rebalance: (ids: string[]) => Promise<TaskResult<null>>
+  // Permanent; moving to the trash is an update of deleted_at
+  delete: (id: string) => Promise<TaskResult<null>>
+  // Changes to the board's tasks made by anyone, including this client
+  subscribe: (boardId: string, listener: (change: TaskChange) => void) => () => void
+}
+
+// Set NEXT_PUBLIC_DATA_MODE=memory to keep tasks in memory instead of Supabase (testing only)
+export const isMemoryData = process.env.NEXT_PUBLIC_DATA_MODE === 'memory'
+
+function ok<T>(data: T): TaskResult<T> {
+  return { data, error: null }
+}
+
+function fail<T>(code: TaskErrorCode, message: string): TaskResult<T> {
+  return { data: null, error: { code, message } }
+}
+
+function toTaskError(error: PostgrestError): TaskError {
+  switch (error.code) {
+    // .single() found no row
+    case 'PGRST116':
+      return { code: 'not_found', message: error.message }
+    // unique_violation
+    case '23505':
+      return { code: 'conflict', message: error.message }
+    // foreign_key_violation, check_violation, not_null_violation, invalid_text_representation, raise exception
+    case '23503':
+    case '23514':
+    case '23502':
+    case '22P02':
+    case 'P0001':
+      return { code: 'invalid', message: error.message }
+    default:
+      // supabase-js reports a failed fetch with an empty code
+      return { code: error.code ? 'unknown' : 'network', message: error.message }
+  }
+}
+
+async function rankAtEnd(boardId: string, status: TaskStatus): Promise<TaskResult<string>> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('rank')
+    .eq('board_id', boardId)
+    .eq('status', status)
+    .order('rank', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) return { data: null, error: toTaskError(error) }
+  return ok(rankBetween(data?.rank ?? null, null))
+}
+
+const supabaseTasks: TaskRepository = {
+  async list(boardId) {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('board_id', boardId)
+      .is('deleted_at', null)
+      .order('rank', { ascending: true })
+
+    if (error) return { data: null, error: toTaskError(error) }
+    return ok(data || [])
+  },
+
+  async listDeleted(boardId) {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('board_id', boardId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false })
+
+    if (error) return { data: null, error: toTaskError(error) }
+    return ok(data || [])
+  },
+
+  async get(id) {
+    const { data, error } = await supabase.from('tasks').select('*').eq('id', id).single()
+
+    if (error) return { data: null, error: toTaskError(error) }
+    return ok(data)
+  },
+
+  async create(task) {
+    let rank = task.rank
+    if (rank === undefined) {
+      const end = await rankAtEnd(task.board_id, task.status)
+      if (end.error) return end
+      rank = end.data
+    }
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .insert({ ...task, rank })
+      .select()
+      .single()
+
+    if (error) return { data: null, error: toTaskError(error) }
+    return ok(data)
+  },
+
+  async update(id, changes) {
+    const { data, error } = await supabase
+      .from('tasks')
+      .update({ updated_at: new Date().toISOString(), ...changes })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) return { data: null, error: toTaskError(error) }
+    return ok(data)
+  },
+
+  move(id, status, rank, changes = {}) {
+    return supabaseTasks.update(id, { ...changes, status, rank })
+  },
+
+  async rebalance(ids) {
+    const ranks = spreadRanks(ids.length)
+    const results = await Promise.all(
+      ids.map((id, i) => supabase.from('tasks').update({ rank: ranks[i] }).eq('id', id))
+    )
+
+    const failed = results.find((r) => r.error)
+    if (failed?.error) return { data: null, error: toTaskError(failed.error) }
+    return ok(null)
+  },
+
+  async delete(id) {
+    const { error } = await supabase.from('tasks').delete().eq('id', id)
+
+    if (error) return { data: null, error: toTaskError(error) }
+    return ok(null)
+  },
+
+  subscribe(boardId, listener) {
+    const channel = supabase
+      .channel(`tasks-channel-${boardId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'tasks',
+          filter: `board_id=eq.${boardId}`,
+        },
+        (payload) => {
+          if (payload.eventType === 'INSERT') {
+            listener({ type: 'insert', task: payload.new as Task })
+          } else if (payload.eventType === 'UPDATE') {
+            listener({ type: 'update', task: payload.new as Task })
+          }
+        }
+      )
+      // Realtime can't filter delete events by column, so listen to all of them
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'tasks' },
+        (payload) => {
+          listener({ type: 'delete', id: payload.old.id })
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  },
+}
+
+// In-memory stand-in with the same behaviour, including change notifications
+export function createMemoryTaskRepository(initialTasks: Task[] = []): TaskRepository {
+  const tasks = new Map(initialTasks.map((t) => [t.id, t]))
+  const listeners = new Set<{ boardId: string; listener: (change: TaskChange) => void }>()
+
+  const notify = (boardId: string, change: TaskChange) => {
+    listeners.forEach((l) => {
+      // Deletes go to every board, like the Supabase channel
+      if (l.boardId === boardId || change.type === 'delete') l.listener(change)
+    })
+  }
+
+  const update = async (id: string, changes: TaskChanges): Promise<TaskResult<Task>> => {
+    const task = tasks.get(id)
+    if (!task) return fail('not_found', `Task ${id} not found`)
+
+    const updated = { ...task, updated_at: new Date().toISOString(), ...changes }
+    tasks.set(id, updated)
+    // A task moved to another board is an update on the board it left, as with Supabase
+    notify(task.board_id, { type: 'update', task: updated })
+    if (updated.board_id !== task.board_id) notify(updated.board_id, { type: 'insert', task: updated })
+    return ok(updated)
+  }
+
+  return {
+    async list(boardId) {
+      return ok(
+        Array.from(tasks.values())
+          .filter((t) => t.board_id === boardId && !t.deleted_at)
+          .sort((a, b) => compareRanks(a.rank, b.rank))
+      )
+    },
+
+    async listDeleted(boardId) {
+      return ok(
+        Array.from(tasks.values())
+          .filter((t) => t.board_id === boardId && t.deleted_at)
+          .sort((a, b) => b.deleted_at!.localeCompare(a.deleted_at!))
+      )
+    },
+
+    async get(id) {
+      const task = tasks.get(id)
+      return task ? ok(task) : fail('not_found', `Task ${id} not found`)
+    },
+
+    async create(input) {
+      if (!input.title.trim()) return fail('invalid', 'Task title is required')
+
+      const lastRank = Array.from(tasks.values())
+        .filter((t) => t.board_id === input.board_id && t.status === input.status)
+        .map((t) => t.rank)
+        .sort(compareRanks)
+        .pop()
+      const now = new Date().toISOString()
+      const task: Task = {
+        ...NEW_TASK_DEFAULTS,
+        rank: rankBetween(lastRank ?? null, null),
+        id: crypto.randomUUID(),
+        updated_at: now,
+        ...input,
+        created_at: now,
+      }
+
+      tasks.set(task.id, task)
+      notify(task.board_id, { type: 'insert', task })
+      return ok(task)
+    },
+
+    update,
+
+    move(id, status, rank, changes = {}) {
+      return update(id, { ...changes, status, rank })
+    },
+
+    async rebalance(ids) {
+      const missing = ids.find((id) => !tasks.has(id))
+      if (missing) return fail('not_found', `Task ${missing} not found`)
+
+      const ranks = spreadRanks(ids.length)
+      for (const [i, id] of ids.entries()) {
+        await update(id, { rank: ranks[i] })
+      }
+      return ok(null)
+    },
+
+    async delete(id) {
+      const task = tasks.get(id)
+      if (!task) return fail('not_found', `Task ${id} not found`)
+
+      tasks.delete(id)
+      notify(task.board_id, { type: 'delete', id })
+      return ok(null)
+    },
+
+    subscribe(boardId, listener) {
+      const entry = { boardId, listener }
+      listeners.add(entry)
+      return () => {
+        listeners.delete(entry)
+      }
+    },
+  }
+}
+
+export const taskRepository: TaskRepository = isMemoryData
+  ? createMemoryTaskRepository()
+  : withOfflineQueue(supabaseTasks)
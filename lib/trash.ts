@@ -0,0 +1,41 @@
+import { getTaskAttachmentPaths, removeAttachmentFiles } from './attachments'
+import { TaskResult, taskRepository } from './tasks'
+import { Task } from './types'
+
+// Deleted tasks stay in the trash this many days before they are removed for good
+// (NEXT_PUBLIC_TRASH_RETENTION_DAYS, 30 by default)
+export const TRASH_RETENTION_DAYS = Number(process.env.NEXT_PUBLIC_TRASH_RETENTION_DAYS) || 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Status and rank are left alone, so a restored task goes back to the same column and place
+export function trashTask(id: string, userName: string): Promise<TaskResult<Task>> {
+  return taskRepository.update(id, { deleted_at: new Date().toISOString(), deleted_by: userName })
+}
+
+export function restoreTask(id: string): Promise<TaskResult<Task>> {
+  return taskRepository.update(id, { deleted_at: null, deleted_by: null })
+}
+
+// Removes the task with its checklist, comments and attachment files
+export async function deleteTaskPermanently(id: string): Promise<TaskResult<null>> {
+  const attachmentPaths = await getTaskAttachmentPaths(id)
+  const result = await taskRepository.delete(id)
+  if (!result.error) await removeAttachmentFiles(attachmentPaths)
+  return result
+}
+
+// Run when a board is opened: empties its trash of tasks past the retention period
+export async function purgeExpiredTasks(boardId: string): Promise<void> {
+  const { data, error } = await taskRepository.listDeleted(boardId)
+  if (error) {
+    console.error('Error fetching trash:', error)
+    return
+  }
+
+  const cutoff = Date.now() - TRASH_RETENTION_DAYS * DAY_MS
+  for (const task of data.filter((t) => Date.parse(t.deleted_at!) < cutoff)) {
+    const result = await deleteTaskPermanently(task.id)
+    if (result.error) console.error('Error purging task:', result.error)
+  }
+}
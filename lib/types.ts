@@ -1,28 +1,227 @@
-export type TaskStatus = 'todo' | 'in_progress' | 'done'
+// Column id (see the board_columns table)
+export type TaskStatus = string
 export type TaskPriority = 'low' | 'medium' | 'high'
-export type Assignee = 'guilherme' | 'safira'
-export type Recurrence = 'none' | 'daily' | 'weekly' | 'monthly'
-export type ActivityAction = 'created' | 'updated' | 'moved' | 'completed' | 'deleted'
+// Member id (see the members table)
+export type Assignee = string
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly'
+
+// Which day a monthly rule lands on
+export type MonthlyPattern =
+  | { type: 'day_of_month'; day: number }
+  // nth is 1-4, or -1 for the last one in the month; weekday is 0 (Sunday) to 6
+  | { type: 'nth_weekday'; nth: number; weekday: number }
+  | { type: 'last_working_day' }
+
+export type RecurrenceEnd =
+  | { type: 'never' }
+  | { type: 'count'; count: number }
+  | { type: 'until'; date: string }
+
+// RRULE-style rule stored as jsonb in tasks.recurrence
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  // Every N days/weeks/months/years
+  interval: number
+  // Weekly only: days of the week, 0 (Sunday) to 6
+  weekdays?: number[]
+  // Monthly only
+  monthly?: MonthlyPattern
+  end: RecurrenceEnd
+  // 'schedule' counts from the due date, 'after_completion' from the day it was completed
+  mode: 'schedule' | 'after_completion'
+}
+
+export type Recurrence = RecurrenceRule | null
+export type ActivityAction = 'created' | 'updated' | 'moved' | 'completed' | 'deleted' | 'checked' | 'undone' | 'redone' | 'restored'
 
 export interface Task {
   id: string
+  board_id: string
   title: string
   description: string | null
   status: TaskStatus
   priority: TaskPriority
   assignee: Assignee
   due_date: string | null
+  // Optional wall-clock time (HH:mm) on the due date, in due_timezone (IANA, e.g. Europe/Lisbon);
+  // see lib/dueDates.ts
+  due_time: string | null
+  due_timezone: string | null
   tags: string[] | null
-  position: number
+  // Order within the column (see lib/rank.ts)
+  rank: string
   recurrence: Recurrence
+  // 1 for the first task of a recurrence, 2 for the next one created from it, ...
+  recurrence_index: number
+  // Task this one was generated from when the previous occurrence was completed
+  recurrence_parent_id: string | null
+  // Series every occurrence of a recurring task belongs to
+  series_id: string | null
+  // Maintained by a trigger on checklist_items
+  checklist_total: number
+  checklist_done: number
+  checklist_auto_complete: boolean
+  comment_count: number
+  attachment_count: number
+  cover_path: string | null
   created_at: string
   updated_at: string
   completed_at: string | null
+  // Set while the task is in the trash (see lib/trash.ts)
+  deleted_at: string | null
+  deleted_by: string | null
+}
+
+// What the database fills in for a new task, for copies built on the client (in memory, offline)
+export const NEW_TASK_DEFAULTS: Omit<Task, 'id' | 'board_id' | 'title' | 'status' | 'assignee' | 'rank' | 'created_at' | 'updated_at'> = {
+  description: null,
+  priority: 'medium',
+  due_date: null,
+  due_time: null,
+  due_timezone: null,
+  tags: [],
+  recurrence: null,
+  recurrence_index: 1,
+  recurrence_parent_id: null,
+  series_id: null,
+  checklist_total: 0,
+  checklist_done: 0,
+  checklist_auto_complete: false,
+  comment_count: 0,
+  attachment_count: 0,
+  cover_path: null,
+  completed_at: null,
+  deleted_at: null,
+  deleted_by: null,
+}
+
+export interface ChecklistItem {
+  id: string
+  task_id: string
+  title: string
+  done: boolean
+  position: number
+  created_at: string
+}
+
+export interface TaskComment {
+  id: string
+  task_id: string
+  author_name: string
+  author_email: string | null
+  body: string
+  created_at: string
+  updated_at: string
+}
+
+export interface TaskAttachment {
+  id: string
+  task_id: string
+  name: string
+  path: string
+  mime_type: string
+  size: number
+  uploaded_by: string
+  created_at: string
+}
+
+// task_id cannot be completed until blocked_by_id is done
+export interface TaskDependency {
+  task_id: string
+  blocked_by_id: string
+  created_at: string
+}
+
+// Template for the future occurrences of a recurring task
+export interface TaskSeries {
+  id: string
+  board_id: string
+  title: string
+  description: string | null
+  priority: TaskPriority
+  assignee: Assignee
+  tags: string[]
+  recurrence: Recurrence
+  // Due dates (yyyy-MM-dd) that will not get an occurrence
+  skipped_dates: string[]
+  ended_at: string | null
+  created_at: string
+}
+
+// Fields that an edit can apply to all future occurrences
+export type SeriesFields = Pick<TaskSeries, 'title' | 'description' | 'priority' | 'assignee' | 'tags' | 'recurrence'>
+
+export interface KanbanBoard {
+  id: string
+  name: string
+  member_ids: string[]
+  created_at: string
+}
+
+export interface BoardColumn {
+  id: string
+  board_id: string
+  title: string
+  color: ColorId
+  position: number
+  is_done: boolean
+  created_at: string
+}
+
+export interface Member {
+  id: string
+  name: string
+  email: string | null
+  avatar_url: string | null
+  color: ColorId
+  active: boolean
+  // Notification types this person turned off (missing = on)
+  notification_preferences: Partial<Record<NotificationType, boolean>>
+  created_at: string
+}
+
+export type NotificationType = 'assigned' | 'status_changed' | 'due_soon' | 'overdue'
+
+// In-app notification for one member about one task (see lib/notifications.ts)
+export interface TaskNotification {
+  id: string
+  member_id: string
+  task_id: string
+  board_id: string
+  type: NotificationType
+  // Who caused it; null for due date notifications
+  actor_name: string | null
+  // Task title and, for status changes, the column titles at the time
+  details: Record<string, unknown> | null
+  read_at: string | null
+  created_at: string
+}
+
+// A reminder one member set on a task, `days_before` its due date at `time` (HH:mm, local)
+export interface TaskReminder {
+  id: string
+  task_id: string
+  member_id: string
+  days_before: number
+  time: string
+  // Null while the task has no due date
+  fire_at: string | null
+  delivered_at: string | null
+  created_at: string
+}
+
+export interface Tag {
+  id: string
+  label: string
+  color: ColorId
+  created_at: string
 }
 
 export interface ActivityLog {
   id: string
   task_id: string
+  // Board the task was on when the entry was written (set by the database)
+  board_id: string | null
   action: ActivityAction
   user_name: string
   details: Record<string, unknown> | null
@@ -30,14 +229,19 @@ export interface ActivityLog {
 }
 
 export interface CreateTaskInput {
+  board_id?: string
   title: string
   description?: string
   status?: TaskStatus
   priority?: TaskPriority
   assignee?: Assignee
   due_date?: string
+  due_time?: string
+  due_timezone?: string
   tags?: string[]
   recurrence?: Recurrence
+  // For occurrences of a series: apply the edit to this task only or to it and the future ones
+  scope?: 'this' | 'future'
 }
 
 export interface UpdateTaskInput {
@@ -48,16 +252,31 @@ export interface UpdateTaskInput {
   assignee?: Assignee
   due_date?: string
   tags?: string[]
-  position?: number
+  rank?: string
   completed_at?: string
   recurrence?: Recurrence
 }
 
-export const COLUMNS: { id: TaskStatus; title: string }[] = [
-  { id: 'todo', title: 'A Fazer' },
-  { id: 'in_progress', title: 'Em Progresso' },
-  { id: 'done', title: 'Concluído' },
-]
+// Combined filter for the board and calendar; empty lists mean "any"
+export type DueFilter = 'any' | 'overdue' | 'today' | 'this_week' | 'next_week' | 'no_date' | 'range'
+
+export interface TaskFilter {
+  search: string
+  assignees: string[]
+  tags: string[]
+  priorities: TaskPriority[]
+  recurrences: (RecurrenceFrequency | 'none')[]
+  due: DueFilter
+  due_from: string | null
+  due_to: string | null
+}
+
+export interface SavedView {
+  id: string
+  name: string
+  filter: TaskFilter
+  created_at: string
+}
 
 export const PRIORITIES: { id: TaskPriority; label: string }[] = [
   { id: 'high', label: 'Alta' },
@@ -65,31 +284,45 @@ export const PRIORITIES: { id: TaskPriority; label: string }[] = [
   { id: 'low', label: 'Baixa' },
 ]
 
-export const ASSIGNEES: { id: Assignee; label: string; emoji: string; avatar: string }[] = [
-  { id: 'guilherme', label: 'Guilherme', emoji: '👤', avatar: '/avatar-guilherme.jpg' },
-  { id: 'safira', label: 'Safira', emoji: '✨', avatar: '/avatar-safira.jpg' },
-]
-
-export const RECURRENCES: { id: Recurrence; label: string }[] = [
+export const RECURRENCE_FREQUENCIES: { id: RecurrenceFrequency | 'none'; label: string }[] = [
   { id: 'none', label: 'Não repete' },
   { id: 'daily', label: 'Diário' },
   { id: 'weekly', label: 'Semanal' },
   { id: 'monthly', label: 'Mensal' },
+  { id: 'yearly', label: 'Anual' },
 ]
 
-// Predefined tags with colors
-export type TagId = 'trabalho' | 'pessoal' | 'urgente' | 'ideia'
+// Color palette shared by members, columns, tags and anything else with a user-picked color
+export type ColorId = 'slate' | 'indigo' | 'blue' | 'green' | 'amber' | 'red' | 'pink' | 'purple'
 
-export interface TagDefinition {
-  id: TagId
+export interface ColorDefinition {
+  id: ColorId
   label: string
-  bgColor: string
-  textColor: string
+  swatch: string
+  softBg: string
+  softText: string
+  // Raw values for inline-styled components (TaskModal)
+  hex: {
+    solid: string
+    lightBg: string
+    darkBg: string
+    lightText: string
+    darkText: string
+    lightBorder: string
+  }
 }
 
-export const TAGS: TagDefinition[] = [
-  { id: 'trabalho', label: 'Trabalho', bgColor: 'bg-blue-100', textColor: 'text-blue-700' },
-  { id: 'pessoal', label: 'Pessoal', bgColor: 'bg-green-100', textColor: 'text-green-700' },
-  { id: 'urgente', label: 'Urgente', bgColor: 'bg-red-100', textColor: 'text-red-700' },
-  { id: 'ideia', label: 'Ideia', bgColor: 'bg-purple-100', textColor: 'text-purple-700' },
+export const COLORS: ColorDefinition[] = [
+  { id: 'slate', label: 'Cinzento', swatch: 'bg-slate-400', softBg: 'bg-slate-100 dark:bg-slate-800', softText: 'text-slate-700 dark:text-slate-300', hex: { solid: '#64748b', lightBg: '#f8fafc', darkBg: '#334155', lightText: '#334155', darkText: '#cbd5e1', lightBorder: '#cbd5e1' } },
+  { id: 'indigo', label: 'Índigo', swatch: 'bg-indigo-500', softBg: 'bg-indigo-100 dark:bg-indigo-900', softText: 'text-indigo-700 dark:text-indigo-300', hex: { solid: '#6366f1', lightBg: '#eef2ff', darkBg: '#312e81', lightText: '#4338ca', darkText: '#a5b4fc', lightBorder: '#a5b4fc' } },
+  { id: 'blue', label: 'Azul', swatch: 'bg-blue-500', softBg: 'bg-blue-100 dark:bg-blue-900', softText: 'text-blue-700 dark:text-blue-300', hex: { solid: '#3b82f6', lightBg: '#eff6ff', darkBg: '#1e3a5f', lightText: '#1d4ed8', darkText: '#93c5fd', lightBorder: '#93c5fd' } },
+  { id: 'green', label: 'Verde', swatch: 'bg-green-500', softBg: 'bg-green-100 dark:bg-green-900', softText: 'text-green-700 dark:text-green-300', hex: { solid: '#22c55e', lightBg: '#f0fdf4', darkBg: '#14532d', lightText: '#15803d', darkText: '#86efac', lightBorder: '#86efac' } },
+  { id: 'amber', label: 'Âmbar', swatch: 'bg-amber-500', softBg: 'bg-amber-100 dark:bg-amber-900', softText: 'text-amber-700 dark:text-amber-300', hex: { solid: '#f59e0b', lightBg: '#fffbeb', darkBg: '#78350f', lightText: '#b45309', darkText: '#fcd34d', lightBorder: '#fcd34d' } },
+  { id: 'red', label: 'Vermelho', swatch: 'bg-red-500', softBg: 'bg-red-100 dark:bg-red-900', softText: 'text-red-700 dark:text-red-300', hex: { solid: '#ef4444', lightBg: '#fef2f2', darkBg: '#450a0a', lightText: '#b91c1c', darkText: '#fca5a5', lightBorder: '#fca5a5' } },
+  { id: 'pink', label: 'Rosa', swatch: 'bg-pink-500', softBg: 'bg-pink-100 dark:bg-pink-900', softText: 'text-pink-700 dark:text-pink-300', hex: { solid: '#ec4899', lightBg: '#fdf2f8', darkBg: '#831843', lightText: '#be185d', darkText: '#f9a8d4', lightBorder: '#f9a8d4' } },
+  { id: 'purple', label: 'Roxo', swatch: 'bg-purple-500', softBg: 'bg-purple-100 dark:bg-purple-900', softText: 'text-purple-700 dark:text-purple-300', hex: { solid: '#a855f7', lightBg: '#faf5ff', darkBg: '#3b0764', lightText: '#7e22ce', darkText: '#d8b4fe', lightBorder: '#d8b4fe' } },
 ]
+
+export function getColor(id: string | null | undefined): ColorDefinition {
+  return COLORS.find((c) => c.id === id) || COLORS[0]
+}
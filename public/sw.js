@@ -0,0 +1,76 @@
+// Keeps the app shell available offline: pages are network-first, build assets cache-first.
+// Data is not cached here; the board keeps its own offline copy in IndexedDB (lib/offline.ts).
+const CACHE = 'kanban-shell-v1'
+
+self.addEventListener('install', () => {
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone()
+          caches.open(CACHE).then((cache) => cache.put(request, copy))
+          return response
+        })
+        .catch(() => caches.match(request).then((cached) => cached || caches.match('/')))
+    )
+    return
+  }
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(
+      caches.match(request).then(
+        (cached) =>
+          cached ||
+          fetch(request).then((response) => {
+            const copy = response.clone()
+            caches.open(CACHE).then((cache) => cache.put(request, copy))
+            return response
+          })
+      )
+    )
+  }
+})
+
+// Reminder notifications (lib/reminders.ts): snooze and open are handed to an open tab,
+// which has the data connection. Keep the actions in sync with SNOOZE_OPTIONS.
+const SNOOZE_MINUTES = { 'snooze-10': 10, 'snooze-60': 60 }
+
+self.addEventListener('notificationclick', (event) => {
+  const { reminderId, taskId } = event.notification.data || {}
+  event.notification.close()
+  if (!reminderId) return
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients[0]
+      const minutes = SNOOZE_MINUTES[event.action]
+
+      if (minutes) {
+        if (client) client.postMessage({ type: 'reminder-snooze', reminderId, minutes })
+        return
+      }
+      if (client) {
+        client.postMessage({ type: 'reminder-open', taskId })
+        return client.focus()
+      }
+      return self.clients.openWindow('/')
+    })
+  )
+})
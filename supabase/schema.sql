@@ -44,3 +44,607 @@ insert into public.tasks (title, description, status, priority, assignee, positi
   ('Integrar Supabase', 'Configurar base de dados e real-time', 'in_progress', 'high', 'safira', 0),
   ('Adicionar filtros avançados', 'Filtrar por prioridade e tags', 'todo', 'medium', 'guilherme', 0),
   ('Deploy na Vercel', 'Publicar a aplicação online', 'todo', 'medium', 'guilherme', 1);
+
+-- Team members (replaces the fixed guilherme/safira assignee check)
+create table if not exists public.members (
+  id text default uuid_generate_v4()::text primary key,
+  name text not null,
+  email text unique,
+  avatar_url text,
+  color text not null default 'indigo',
+  active boolean not null default true,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Existing assignee values become member ids
+insert into public.members (id, name, avatar_url, color) values
+  ('guilherme', 'Guilherme', '/avatar-guilherme.jpg', 'indigo'),
+  ('safira', 'Safira', '/avatar-safira.jpg', 'pink')
+on conflict (id) do nothing;
+
+alter table public.tasks drop constraint if exists tasks_assignee_check;
+alter table public.tasks alter column assignee drop default;
+alter table public.tasks drop constraint if exists tasks_assignee_fkey;
+alter table public.tasks
+  add constraint tasks_assignee_fkey foreign key (assignee) references public.members(id);
+
+alter table public.members enable row level security;
+
+create policy "Allow all operations" on public.members
+  for all
+  using (true)
+  with check (true);
+
+alter publication supabase_realtime add table public.members;
+
+-- Workflow columns (replaces the fixed todo/in_progress/done status check)
+create table if not exists public.board_columns (
+  id text default uuid_generate_v4()::text primary key,
+  title text not null,
+  color text not null default 'slate',
+  position integer not null default 0,
+  is_done boolean not null default false,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Existing status values become column ids
+insert into public.board_columns (id, title, color, position, is_done) values
+  ('todo', 'A Fazer', 'slate', 0, false),
+  ('in_progress', 'Em Progresso', 'indigo', 1, false),
+  ('done', 'Concluído', 'green', 2, true)
+on conflict (id) do nothing;
+
+alter table public.tasks drop constraint if exists tasks_status_check;
+alter table public.tasks alter column status drop default;
+alter table public.tasks drop constraint if exists tasks_status_fkey;
+alter table public.tasks
+  add constraint tasks_status_fkey foreign key (status) references public.board_columns(id);
+
+alter table public.board_columns enable row level security;
+
+create policy "Allow all operations" on public.board_columns
+  for all
+  using (true)
+  with check (true);
+
+alter publication supabase_realtime add table public.board_columns;
+
+-- Boards: each board has its own members, columns and tasks
+create table if not exists public.boards (
+  id uuid default uuid_generate_v4() primary key,
+  name text not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table if not exists public.board_members (
+  board_id uuid not null references public.boards(id) on delete cascade,
+  member_id text not null references public.members(id) on delete cascade,
+  primary key (board_id, member_id)
+);
+
+-- Everything that existed before boards goes to a default board
+insert into public.boards (id, name) values
+  ('00000000-0000-0000-0000-000000000001', 'Guilherme & Safira')
+on conflict (id) do nothing;
+
+insert into public.board_members (board_id, member_id)
+  select '00000000-0000-0000-0000-000000000001', id from public.members
+on conflict do nothing;
+
+alter table public.tasks
+  add column if not exists board_id uuid references public.boards(id) on delete cascade;
+update public.tasks set board_id = '00000000-0000-0000-0000-000000000001' where board_id is null;
+alter table public.tasks alter column board_id set not null;
+create index if not exists tasks_board_id_idx on public.tasks(board_id);
+
+alter table public.board_columns
+  add column if not exists board_id uuid references public.boards(id) on delete cascade;
+update public.board_columns set board_id = '00000000-0000-0000-0000-000000000001' where board_id is null;
+alter table public.board_columns alter column board_id set not null;
+create index if not exists board_columns_board_id_idx on public.board_columns(board_id);
+
+alter table public.boards enable row level security;
+alter table public.board_members enable row level security;
+
+create policy "Allow all operations" on public.boards
+  for all
+  using (true)
+  with check (true);
+
+create policy "Allow all operations" on public.board_members
+  for all
+  using (true)
+  with check (true);
+
+-- Tags (tasks.tags holds tag ids)
+create table if not exists public.tags (
+  id text default uuid_generate_v4()::text primary key,
+  label text not null,
+  color text not null default 'slate',
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- The four tags that used to be hard-coded keep their ids
+insert into public.tags (id, label, color) values
+  ('trabalho', 'Trabalho', 'blue'),
+  ('pessoal', 'Pessoal', 'green'),
+  ('urgente', 'Urgente', 'red'),
+  ('ideia', 'Ideia', 'purple')
+on conflict (id) do nothing;
+
+-- Delete a tag and strip it from every task
+create or replace function public.delete_tag(p_tag_id text)
+returns void
+language sql
+as $$
+  update public.tasks
+    set tags = array_remove(tags, p_tag_id),
+        updated_at = timezone('utc'::text, now())
+    where p_tag_id = any(tags);
+  delete from public.tags where id = p_tag_id;
+$$;
+
+-- Replace source with target on every task (without duplicating target), then delete source
+create or replace function public.merge_tags(p_source_id text, p_target_id text)
+returns void
+language sql
+as $$
+  update public.tasks
+    set tags = case
+          when p_target_id = any(tags) then array_remove(tags, p_source_id)
+          else array_replace(tags, p_source_id, p_target_id)
+        end,
+        updated_at = timezone('utc'::text, now())
+    where p_source_id = any(tags);
+  delete from public.tags where id = p_source_id;
+$$;
+
+alter table public.tags enable row level security;
+
+create policy "Allow all operations" on public.tags
+  for all
+  using (true)
+  with check (true);
+
+alter publication supabase_realtime add table public.tags;
+
+-- Checklists
+create table if not exists public.checklist_items (
+  id uuid default uuid_generate_v4() primary key,
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  title text not null,
+  done boolean not null default false,
+  position integer not null default 0,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists checklist_items_task_id_idx on public.checklist_items(task_id);
+
+-- Progress is kept on the task so the board can show it without loading every checklist
+alter table public.tasks
+  add column if not exists checklist_total integer not null default 0,
+  add column if not exists checklist_done integer not null default 0,
+  add column if not exists checklist_auto_complete boolean not null default false;
+
+create or replace function public.refresh_checklist_counts()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_task_id uuid := coalesce(new.task_id, old.task_id);
+begin
+  update public.tasks
+    set checklist_total = (select count(*) from public.checklist_items where task_id = v_task_id),
+        checklist_done = (select count(*) from public.checklist_items where task_id = v_task_id and done),
+        updated_at = timezone('utc'::text, now())
+    where id = v_task_id;
+  return null;
+end;
+$$;
+
+drop trigger if exists checklist_items_refresh_counts on public.checklist_items;
+create trigger checklist_items_refresh_counts
+  after insert or update or delete on public.checklist_items
+  for each row execute function public.refresh_checklist_counts();
+
+alter table public.checklist_items enable row level security;
+
+create policy "Allow all operations" on public.checklist_items
+  for all
+  using (true)
+  with check (true);
+
+-- Comments
+create table if not exists public.task_comments (
+  id uuid default uuid_generate_v4() primary key,
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  author_name text not null,
+  author_email text,
+  body text not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists task_comments_task_id_idx on public.task_comments(task_id);
+
+-- Count kept on the task for the card badge
+alter table public.tasks
+  add column if not exists comment_count integer not null default 0;
+
+create or replace function public.refresh_comment_count()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_task_id uuid := coalesce(new.task_id, old.task_id);
+begin
+  update public.tasks
+    set comment_count = (select count(*) from public.task_comments where task_id = v_task_id),
+        -- A new updated_at, otherwise the board drops the realtime update as one it already has
+        updated_at = timezone('utc'::text, now())
+    where id = v_task_id;
+  return null;
+end;
+$$;
+
+drop trigger if exists task_comments_refresh_count on public.task_comments;
+create trigger task_comments_refresh_count
+  after insert or delete on public.task_comments
+  for each row execute function public.refresh_comment_count();
+
+alter table public.task_comments enable row level security;
+
+create policy "Allow all operations" on public.task_comments
+  for all
+  using (true)
+  with check (true);
+
+-- Deletes must carry the old row's id for the live timeline
+alter table public.task_comments replica identity full;
+
+alter publication supabase_realtime add table public.task_comments;
+
+-- Attachments (files live in the public "attachments" storage bucket under <task_id>/)
+insert into storage.buckets (id, name, public)
+values ('attachments', 'attachments', true)
+on conflict (id) do nothing;
+
+create policy "Allow all operations on attachments" on storage.objects
+  for all
+  using (bucket_id = 'attachments')
+  with check (bucket_id = 'attachments');
+
+create table if not exists public.task_attachments (
+  id uuid default uuid_generate_v4() primary key,
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  name text not null,
+  path text not null unique,
+  mime_type text not null,
+  size bigint not null default 0,
+  uploaded_by text not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists task_attachments_task_id_idx on public.task_attachments(task_id);
+
+alter table public.tasks
+  add column if not exists attachment_count integer not null default 0,
+  add column if not exists cover_path text;
+
+-- Keep the count current and drop the cover when its file goes away
+create or replace function public.refresh_attachment_count()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_task_id uuid := coalesce(new.task_id, old.task_id);
+begin
+  update public.tasks
+    set attachment_count = (select count(*) from public.task_attachments where task_id = v_task_id),
+        cover_path = case when tg_op = 'DELETE' and cover_path = old.path then null else cover_path end,
+        updated_at = timezone('utc'::text, now())
+    where id = v_task_id;
+  return null;
+end;
+$$;
+
+drop trigger if exists task_attachments_refresh_count on public.task_attachments;
+create trigger task_attachments_refresh_count
+  after insert or delete on public.task_attachments
+  for each row execute function public.refresh_attachment_count();
+
+alter table public.task_attachments enable row level security;
+
+create policy "Allow all operations" on public.task_attachments
+  for all
+  using (true)
+  with check (true);
+
+-- Saved filter views
+create table if not exists public.saved_views (
+  id uuid default uuid_generate_v4() primary key,
+  name text not null,
+  filter jsonb not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.saved_views enable row level security;
+
+create policy "Allow all operations" on public.saved_views
+  for all
+  using (true)
+  with check (true);
+
+-- Task dependencies: task_id is blocked by blocked_by_id
+create table if not exists public.task_dependencies (
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  blocked_by_id uuid not null references public.tasks(id) on delete cascade,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  primary key (task_id, blocked_by_id),
+  check (task_id <> blocked_by_id)
+);
+
+create index if not exists task_dependencies_blocked_by_idx on public.task_dependencies(blocked_by_id);
+
+-- Reject a link when the blocker already depends, directly or not, on the task
+create or replace function public.check_task_dependency_cycle()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (
+    with recursive chain(id) as (
+      select new.blocked_by_id
+      union
+      select d.blocked_by_id
+        from public.task_dependencies d
+        join chain on d.task_id = chain.id
+    )
+    select 1 from chain where id = new.task_id
+  ) then
+    raise exception 'circular dependency between % and %', new.task_id, new.blocked_by_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists task_dependencies_check_cycle on public.task_dependencies;
+create trigger task_dependencies_check_cycle
+  before insert or update on public.task_dependencies
+  for each row execute function public.check_task_dependency_cycle();
+
+alter table public.task_dependencies enable row level security;
+
+create policy "Allow all operations" on public.task_dependencies
+  for all
+  using (true)
+  with check (true);
+
+alter publication supabase_realtime add table public.task_dependencies;
+
+-- Recurrence rules: tasks.recurrence becomes a jsonb rule (null = does not repeat), e.g.
+-- {"frequency": "weekly", "interval": 2, "weekdays": [1, 3, 5], "end": {"type": "never"}, "mode": "schedule"}
+alter table public.tasks
+  add column if not exists recurrence text default 'none';
+
+-- Convert the old 'none' | 'daily' | 'weekly' | 'monthly' values once
+do $$
+begin
+  if (select data_type from information_schema.columns
+      where table_schema = 'public' and table_name = 'tasks' and column_name = 'recurrence') = 'text' then
+    alter table public.tasks alter column recurrence drop default;
+    alter table public.tasks alter column recurrence type jsonb using (
+      case recurrence
+        when 'daily' then '{"frequency": "daily", "interval": 1, "end": {"type": "never"}, "mode": "schedule"}'::jsonb
+        when 'weekly' then '{"frequency": "weekly", "interval": 1, "end": {"type": "never"}, "mode": "schedule"}'::jsonb
+        when 'monthly' then '{"frequency": "monthly", "interval": 1, "end": {"type": "never"}, "mode": "schedule"}'::jsonb
+        else null
+      end
+    );
+  end if;
+end;
+$$;
+
+-- Position of a task within its recurrence, for rules that end after N occurrences
+alter table public.tasks
+  add column if not exists recurrence_index integer not null default 1;
+
+-- Next occurrences are generated by the /api/recurrence route; at most one per completed task
+alter table public.tasks
+  add column if not exists recurrence_parent_id uuid references public.tasks(id) on delete set null;
+
+create unique index if not exists tasks_recurrence_parent_id_key
+  on public.tasks(recurrence_parent_id)
+  where recurrence_parent_id is not null;
+
+-- Recurring series: the template future occurrences are generated from, plus skipped dates.
+-- Editing "this and the following" occurrences changes the template; "only this one" changes the task.
+create table if not exists public.task_series (
+  id uuid default uuid_generate_v4() primary key,
+  board_id uuid not null references public.boards(id) on delete cascade,
+  title text not null,
+  description text,
+  priority text not null default 'medium' check (priority in ('low', 'medium', 'high')),
+  assignee text not null references public.members(id),
+  tags text[] not null default '{}',
+  recurrence jsonb,
+  skipped_dates text[] not null default '{}',
+  ended_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.tasks
+  add column if not exists series_id uuid references public.task_series(id) on delete set null;
+
+create index if not exists tasks_series_id_idx on public.tasks(series_id);
+
+-- Existing recurrence chains each become a series, built from their latest occurrence
+do $$
+declare
+  root record;
+  latest record;
+  new_series_id uuid;
+begin
+  for root in
+    select * from public.tasks
+    where recurrence is not null and recurrence_parent_id is null and series_id is null
+  loop
+    with recursive chain as (
+      select id, recurrence_index from public.tasks where id = root.id
+      union all
+      select t.id, t.recurrence_index from public.tasks t join chain on t.recurrence_parent_id = chain.id
+    )
+    select t.* into latest
+      from public.tasks t join chain on t.id = chain.id
+      order by t.recurrence_index desc
+      limit 1;
+
+    insert into public.task_series (board_id, title, description, priority, assignee, tags, recurrence)
+    values (latest.board_id, latest.title, latest.description, latest.priority, latest.assignee,
+            coalesce(latest.tags, '{}'), latest.recurrence)
+    returning id into new_series_id;
+
+    with recursive chain as (
+      select id from public.tasks where id = root.id
+      union all
+      select t.id from public.tasks t join chain on t.recurrence_parent_id = chain.id
+    )
+    update public.tasks set series_id = new_series_id where id in (select id from chain);
+  end loop;
+end;
+$$;
+
+alter table public.task_series enable row level security;
+
+create policy "Allow all operations" on public.task_series
+  for all
+  using (true)
+  with check (true);
+
+-- Card order: text rank keys (see lib/rank.ts) compared byte by byte, so moving a card only
+-- rewrites that card. Replaces the integer position, which is no longer read.
+alter table public.tasks
+  add column if not exists rank text collate "C";
+
+-- Existing positions become fixed-width keys in the same order, e.g. 000001V, 000002V, ...
+update public.tasks t
+  set rank = lpad(ordered.n::text, 6, '0') || 'V'
+  from (
+    select id, row_number() over (partition by board_id, status order by position, created_at) as n
+    from public.tasks
+    where rank is null
+  ) ordered
+  where t.id = ordered.id;
+
+alter table public.tasks alter column rank set not null;
+
+create index if not exists tasks_board_status_rank_idx on public.tasks(board_id, status, rank);
+
+-- position is kept only for the backfill above
+drop index if exists public.tasks_position_idx;
+alter table public.tasks alter column position drop not null;
+
+-- Trash: deleting a task only sets deleted_at; the board purges it after the retention period
+-- (see lib/trash.ts)
+alter table public.tasks
+  add column if not exists deleted_at timestamp with time zone,
+  add column if not exists deleted_by text;
+
+create index if not exists tasks_board_deleted_at_idx on public.tasks(board_id, deleted_at)
+  where deleted_at is not null;
+
+-- Board-wide activity feed: each entry records the board its task was on at the time
+alter table public.activity_log
+  add column if not exists board_id uuid references public.boards(id) on delete cascade;
+
+update public.activity_log a
+  set board_id = t.board_id
+  from public.tasks t
+  where a.task_id = t.id and a.board_id is null;
+
+create or replace function public.set_activity_board_id()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.board_id is null then
+    select board_id into new.board_id from public.tasks where id = new.task_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists activity_log_set_board_id on public.activity_log;
+create trigger activity_log_set_board_id
+  before insert on public.activity_log
+  for each row execute function public.set_activity_board_id();
+
+create index if not exists activity_log_board_created_idx on public.activity_log(board_id, created_at desc);
+
+-- The activity feed and task timelines update live
+alter publication supabase_realtime add table public.activity_log;
+
+-- In-app notifications (see lib/notifications.ts). Due date notifications carry a dedupe_key
+-- so each one is created once per task and due date.
+create table if not exists public.notifications (
+  id uuid default uuid_generate_v4() primary key,
+  member_id text not null references public.members(id) on delete cascade,
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  board_id uuid not null references public.boards(id) on delete cascade,
+  type text not null check (type in ('assigned', 'status_changed', 'due_soon', 'overdue')),
+  actor_name text,
+  details jsonb,
+  dedupe_key text unique,
+  read_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists notifications_member_created_idx on public.notifications(member_id, created_at desc);
+
+-- Types a member turned off, e.g. {"status_changed": false}
+alter table public.members
+  add column if not exists notification_preferences jsonb not null default '{}';
+
+alter publication supabase_realtime add table public.notifications;
+
+alter table public.notifications enable row level security;
+
+create policy "Allow all operations" on public.notifications
+  for all
+  using (true)
+  with check (true);
+
+-- Due date reminders (see lib/reminders.ts). fire_at follows the task's due date; the device
+-- that sets delivered_at first shows the reminder, so it appears once across devices.
+create table if not exists public.task_reminders (
+  id uuid default uuid_generate_v4() primary key,
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  member_id text not null references public.members(id) on delete cascade,
+  days_before integer not null check (days_before >= 0),
+  time text not null check (time ~ '^\d{2}:\d{2}$'),
+  fire_at timestamp with time zone,
+  delivered_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (task_id, member_id, days_before, time)
+);
+
+create index if not exists task_reminders_member_fire_at_idx on public.task_reminders(member_id, fire_at)
+  where delivered_at is null;
+
+alter table public.task_reminders enable row level security;
+
+create policy "Allow all operations" on public.task_reminders
+  for all
+  using (true)
+  with check (true);
+
+-- Optional due time: wall-clock HH:mm on due_date in the IANA zone it was set in (see lib/dueDates.ts)
+alter table public.tasks
+  add column if not exists due_time text check (due_time ~ '^\d{2}:\d{2}$'),
+  add column if not exists due_timezone text;
+
+-- Dependencies only apply within a board; links left behind by tasks moved to another board
+-- (now removed by moveTaskToBoard) are dropped
+delete from public.task_dependencies d
+  using public.tasks t, public.tasks b
+  where t.id = d.task_id and b.id = d.blocked_by_id and t.board_id <> b.board_id;